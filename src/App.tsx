@@ -1,146 +1,291 @@
 
-import React, { useMemo, useState, useEffect } from "react";
-import { ResponsiveContainer, LineChart, Line, CartesianGrid, XAxis, YAxis, Tooltip, Legend, ReferenceDot } from "recharts";
+import React, { useMemo, useState, useEffect, useRef, useCallback } from "react";
+import { ResponsiveContainer, LineChart, Line, CartesianGrid, XAxis, YAxis, Tooltip, Legend, ReferenceDot, ReferenceLine } from "recharts";
+import bundledAirportsCsv from "./data/airports.csv?raw";
+import bundledRunwaysCsv from "./data/runways.csv?raw";
+import {
+  round, asRecord, toCsv, pressureAltitudeFromAltimeterFt, densityAltitudeRuleOfThumbFt, nz, preciseDensityAltitudeFt, decodeMetar,
+  decodeTaf, tafConditionsAt, interpolateTempC, formatDayTimeZ, pad2, parseRunwayIdent, windComponents, leastFavourableWind,
+  densityAltitudeFt, kochTakeoffFactor, kochClimbLossPct, rocLossPct, csvNum, buildAirportDb, lookupAirport, runwayEndIdent, WEATHER_PROVIDERS, DEFAULT_WEATHER_SETTINGS, normalizeWeatherSettings, errorMessage, makeWeatherProvider,
+  fetchWeatherCached, resolveDayTimeMs, metarAgeMinutes, parsePohTable, pohLookup, SURFACE_FACTORS, surfaceKindFromDataset, runwaySlopePct,
+  calculateTakeoff, calculateLanding, climbGradient, ftPerNmToPct, flightCategory, assessMinimums, compareStation, runwayChoices, normalizeHistoryEntry, historyToCsv, PERF_MODES, PERF_MODE_LABELS, FLIGHT_CATEGORY_RANK,
+  DEFAULT_UNIT_PREFS, UNIT_PRESETS, WIND_UNIT_LABELS, PRESSURE_DECIMALS, normalizeUnitPrefs, convertUnits, unitFormat, fromFt, toFt, fromC, toC, fromInHg, toInHg, fromKt, toKt,
+} from "./core";
+import type {
+  FlightCategory, KochModel, PerfMode, MetarField, MetarWind, MetarVisibility, MetarWeather, MetarCloud, WindObs, RunwayIdent,
+  AirportDb, WeatherProviderKind, WeatherSettings, PohTable, PohLookup, SurfaceCondition, CorrectionLine, PersonalMinimums, GoStatus,
+  ComparisonAircraft, StationComparison, UnitPrefs, UnitFormat, TakeoffInput, HistoryEntry,
+} from "./core";
 
 /********************
  * ClimbCheck — Koch Chart Calculator (v6.4.2 RC)
  ********************/
 
-/************ Utilities ************/
-function round(n: number, d: number = 0) { const p = Math.pow(10, d); return Math.round((n + Number.EPSILON) * p) / p; }
-function cToF(c: number) { return c * 9 / 5 + 32; }
-function fToC(f: number) { return (f - 32) * 5 / 9; }
-function ftToM(ft: number){ return ft * 0.3048; }
-function isaTempAtElevationC(altFt: number) { return 15 - 1.98 * (altFt / 1000); }
-function pressureAltitudeFromAltimeterFt(fieldElevFt: number, altInHg: number) { return (29.92 - altInHg) * 1000 + fieldElevFt; }
-function densityAltitudeRuleOfThumbFt(paFt: number, tempC: number, fieldElevFt: number) { const isa = isaTempAtElevationC(fieldElevFt); return paFt + 120 * (tempC - isa); }
-function inHgToHpa(inHg: number){ return inHg * 33.8638866667; }
-function hpaToInHg(hpa: number){ return hpa * 0.0295299830714; }
-function nz(n:number){ return Number.isFinite(n) ? n : 0; }
-
-/************ Precise DA helpers ************/
-const P0=101325, T0=288.15, L=0.0065, g=9.80665, R=8.314462618, M=0.0289644;
-const nExp = g*M/(R*L);          // ~5.25588
-const Rd   = 287.05;             // J/(kg·K) dry air
-const rho0 = 1.225;              // kg/m^3 sea-level ISA
-const eps  = 0.622;              // Mw/Md
-function stdPressureAtAltitude(pa_m:number){ const ratio=1-(L*pa_m)/T0; return P0*Math.pow(ratio,nExp); }
-function preciseDensityAltitudeFt(paFt:number,tempC:number,dewC?:number|null){
-  const h_m = paFt * 0.3048; const p = stdPressureAtAltitude(h_m); const T = tempC + 273.15; let Tv = T;
-  if (dewC!=null && isFinite(dewC)) { const e_hPa = 6.112 * Math.exp((17.67*dewC)/(dewC+243.5)); const p_hPa = p/100; const r = Math.max(0, Math.min(0.1, eps * e_hPa / Math.max(1e-6, (p_hPa - e_hPa)))); Tv = T * (1 + r/eps) / (1 + r); }
-  const rho = p/(Rd*Tv); const expo = 1/(nExp-1); const term = Math.pow(rho/rho0, expo); const h_m_da = (T0/L)*(1-term); return h_m_da/0.3048;
+/************ Browser storage ************/
+const AIRPORT_STORAGE_KEY = 'climbcheck.airports.v1';
+const WEATHER_STORAGE_KEY = 'climbcheck.weather.v1';
+const POH_TABLE_STORAGE_KEY = 'climbcheck.pohTable.v1';
+const BUNDLED_AIRPORT_DB = buildAirportDb(bundledAirportsCsv, bundledRunwaysCsv);
+function loadAirportDb(): AirportDb {
+  try { const s = localStorage.getItem(AIRPORT_STORAGE_KEY); if (s){ const { airports, runways } = JSON.parse(s); return buildAirportDb(airports ?? '', runways ?? '', BUNDLED_AIRPORT_DB); } } catch { /* fall back to bundled */ }
+  return BUNDLED_AIRPORT_DB;
 }
+function loadWeatherSettings(): WeatherSettings { try { return normalizeWeatherSettings(JSON.parse(localStorage.getItem(WEATHER_STORAGE_KEY) ?? 'null')); } catch { return DEFAULT_WEATHER_SETTINGS; } }
+function loadPohTableText(){ try { return localStorage.getItem(POH_TABLE_STORAGE_KEY) ?? ''; } catch { return ''; } }
 
-/************ METAR parsing & decoding ************/
-function parseMetar(raw:string){
-  const tokens=(raw||"").replace("="," ").split(/\s+/).map(t=>t.trim()).filter(Boolean);
-  let tempC: number | null = null; let altInHg: number | null = null;
-  for(const t of tokens){
-    if (tempC==null && t.includes("/") && t.length>=4){ const [tpart]=t.split("/"); if (tpart){ const isM=tpart.startsWith("M"); const d=isM?tpart.slice(1):tpart; if(/^\d{1,2}$/.test(d)) tempC=(isM?-1:1)*Number(d); } }
-    if (altInHg==null && /^A\d{4}$/.test(t)) altInHg = Number(t.slice(1))/100; else if (altInHg==null && /^Q\d{4}$/.test(t)) altInHg = hpaToInHg(Number(t.slice(1)));
-  }
-  return { tempC, altInHg };
+/************ Unit preferences ************/
+// Inputs hold text in the preferred units; saved profiles, history and exports stay in ft, °C, inHg and kt (the default preferences).
+type UnitDim = keyof UnitPrefs;
+const UNITS_STORAGE_KEY = 'climbcheck.units.v1';
+const INPUT_DECIMALS: Record<Exclude<UnitDim, 'pressure'>, number> = { altitude: 0, distance: 0, temperature: 1, wind: 1 };
+function loadUnitPrefs(): UnitPrefs { try { return normalizeUnitPrefs(JSON.parse(localStorage.getItem(UNITS_STORAGE_KEY) ?? 'null')); } catch { return DEFAULT_UNIT_PREFS; } }
+// Re-expresses typed text in other units; blanks and unparsable text are left as typed.
+function convertInput(s: string, dim: UnitDim, from: UnitPrefs, to: UnitPrefs){
+  const v = Number(s); if (from[dim]===to[dim] || s.trim()==='' || !isFinite(v)) return s;
+  return String(round(convertUnits(v, dim, from, to), dim==='pressure' ? PRESSURE_DECIMALS[to.pressure] : INPUT_DECIMALS[dim]));
 }
-function parseMetarPrecise(raw: string){
-  const tokens = (raw || "").replace("=", " ").split(/\s+/).map(t => t.trim()).filter(Boolean);
-  let tempC: number | null = null; let dewC: number | null = null; let altInHg: number | null = null; let altHpa: number | null = null; let altUnit: 'A'|'Q'|null = null;
-  for (const t of tokens){ if (/^T\d{8}$/.test(t)){ const s1 = t[1]==='1'?-1:1; const s2 = t[5]==='1'?-1:1; tempC = s1*(Number(t.slice(2,5))/10); dewC  = s2*(Number(t.slice(6,9))/10); } }
-  for (const t of tokens){
-    if ((tempC==null || dewC==null) && t.includes("/")){
-      const [ta,da] = t.split("/");
-      if (tempC==null && ta){ const neg=ta.startsWith('M'); const val=Number(neg?ta.slice(1):ta); if (isFinite(val)) tempC = neg?-val:val; }
-      if (dewC==null  && da){ const neg=da.startsWith('M'); const val=Number(neg?da.slice(1):da); if (isFinite(val)) dewC  = neg?-val:val; }
-    }
-    if (altInHg==null && /^A\d{4}$/.test(t)) { altInHg = Number(t.slice(1))/100; altHpa = inHgToHpa(altInHg); altUnit='A'; }
-    else if (altInHg==null && /^Q\d{4}$/.test(t)) { altHpa = Number(t.slice(1)); altInHg = hpaToInHg(altHpa); altUnit='Q'; }
-  }
-  return { tempC, dewC, altInHg, altHpa, altUnit };
+function convertDraft<T extends Record<string, string>>(d: T, dims: Partial<Record<keyof T, UnitDim>>, from: UnitPrefs, to: UnitPrefs): T {
+  const out = { ...d }; for (const k in dims) out[k] = convertInput(d[k], dims[k]!, from, to) as T[typeof k]; return out;
 }
-function parseMetarMore(raw:string){
-  const base=parseMetar(raw); const tokens=(raw||"").replace("="," ").split(/\s+/).map(t=>t.trim()).filter(Boolean);
-  let wind: string | null = null; let visSM: string | null = null; let clouds:string[]=[]; let wx:string[]=[]; let type=''; let time='';
-  if(tokens.length){ type = tokens[0]; const tt = tokens.find(t=>/\d{6}Z/.test(t)); if(tt) time=tt; }
-  for(const t of tokens){
-    if (/^(\d{3}|VRB)\d{2,3}(G\d{2,3})?KT$/.test(t)) wind = t;
-    if (/^(\d{1,2}|\d?\/\d)SM$/.test(t)) visSM = t;
-    if (/^(FEW|SCT|BKN|OVC)\d{3}/.test(t)) clouds.push(t);
-    if (/^(RA|SN|FG|BR|HZ|TS|DZ|SH|SQ|FZ|PL)/.test(t)) wx.push(t);
-  }
-  return { ...base, wind, visSM, clouds, wx, type, time };
+// Settings outside 25–33 inHg (847–1118 hPa) are taken as still being typed.
+function parseAltimeterInHg(text: string, u: UnitPrefs['pressure']){ const v = toInHg(Number(text), u); return text.trim()!=='' && v >= 25 && v <= 33 ? v : null; }
+function unitLabel(u: UnitPrefs, dim: UnitDim){ return dim==='wind' ? WIND_UNIT_LABELS[u.wind] : dim==='temperature' ? `°${u.temperature}` : u[dim]; }
+
+/************ Aircraft profiles ************/
+type AircraftProfile = { id: string; name: string; groundRollFt: number | null; over50Ft: number | null; landingFt: number | null; refWeightLb: number | null; maxGrossLb: number | null; vyKias: number | null; maxXwindKt: number | null; kochMode: PerfMode };
+type ProfileDraft = { [K in Exclude<keyof AircraftProfile, 'id'|'kochMode'>]: string } & { kochMode: PerfMode };
+const PROFILES_STORAGE_KEY = 'climbcheck.aircraft.v1';
+const SELECTED_PROFILE_STORAGE_KEY = 'climbcheck.aircraft.selected.v1';
+const PROFILE_DRAFT_UNITS: Partial<Record<keyof ProfileDraft, UnitDim>> = { groundRollFt: 'distance', over50Ft: 'distance', landingFt: 'distance', maxXwindKt: 'wind' };
+const EMPTY_PROFILE_DRAFT: ProfileDraft = { name: '', groundRollFt: '', over50Ft: '', landingFt: '', refWeightLb: '', maxGrossLb: '', vyKias: '', maxXwindKt: '', kochMode: 'precise' };
+function newProfileId(){ return Date.now().toString(36) + Math.random().toString(36).slice(2, 6); }
+function normalizeProfile(x: unknown): AircraftProfile | null {
+  const o = asRecord(x); if (!o || typeof o.name !== 'string' || !o.name.trim()) return null;
+  const num = (v: unknown) => csvNum(v==null ? '' : String(v));
+  return { id: typeof o.id==='string' && o.id ? o.id : newProfileId(), name: o.name.trim(), groundRollFt: num(o.groundRollFt), over50Ft: num(o.over50Ft), landingFt: num(o.landingFt), refWeightLb: num(o.refWeightLb), maxGrossLb: num(o.maxGrossLb), vyKias: num(o.vyKias), maxXwindKt: num(o.maxXwindKt), kochMode: PERF_MODES.find(m => m===o.kochMode) ?? 'precise' };
+}
+// Accepts the exported envelope ({ version, profiles }) or a bare array.
+function parseProfilesJson(text:string): AircraftProfile[] | null {
+  try { const j: unknown = JSON.parse(text); const list = Array.isArray(j) ? j : asRecord(j)?.profiles; return Array.isArray(list) ? list.map(normalizeProfile).filter((p): p is AircraftProfile => p!=null) : null; } catch { return null; }
+}
+function loadProfiles(): AircraftProfile[] { try { return parseProfilesJson(localStorage.getItem(PROFILES_STORAGE_KEY) ?? '[]') ?? []; } catch { return []; } }
+function saveProfiles(list: AircraftProfile[]){ try { localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(list)); } catch { /* storage unavailable */ } }
+function profileToDraft(p: AircraftProfile, u: UnitPrefs): ProfileDraft {
+  const s = (v: number | null) => v==null ? '' : String(v);
+  return convertDraft({ name: p.name, groundRollFt: s(p.groundRollFt), over50Ft: s(p.over50Ft), landingFt: s(p.landingFt), refWeightLb: s(p.refWeightLb), maxGrossLb: s(p.maxGrossLb), vyKias: s(p.vyKias), maxXwindKt: s(p.maxXwindKt), kochMode: p.kochMode }, PROFILE_DRAFT_UNITS, DEFAULT_UNIT_PREFS, u);
+}
+function downloadText(filename:string, text:string, mime:string){
+  const url = URL.createObjectURL(new Blob([text], { type: mime })); const a = document.createElement('a');
+  a.href = url; a.download = filename; document.body.appendChild(a); a.click(); a.remove(); URL.revokeObjectURL(url);
+}
+
+/************ Pilot minimums ************/
+type PilotProfile = { id: string; name: string; minimums: PersonalMinimums };
+type MinimumsDraft = { [K in Exclude<keyof PersonalMinimums, 'minCategory'>]: string } & { minCategory: NonNullable<PersonalMinimums['minCategory']> | '' };
+const PILOTS_STORAGE_KEY = 'climbcheck.pilots.v1';
+const SELECTED_PILOT_STORAGE_KEY = 'climbcheck.pilots.selected.v1';
+const MIN_CATEGORIES = ['VFR','MVFR','IFR','LIFR'] as const;
+const MINIMUMS_DRAFT_UNITS: Partial<Record<keyof MinimumsDraft, UnitDim>> = { minMarginFt: 'distance', maxDaFt: 'altitude', maxCrosswindKt: 'wind', maxTailwindKt: 'wind' };
+const EMPTY_MINIMUMS_DRAFT: MinimumsDraft = { minMarginPct: '', minMarginFt: '', maxDaFt: '', maxCrosswindKt: '', maxTailwindKt: '', minCategory: '', maxMetarAgeMin: '' };
+
+function normalizeMinimums(x: unknown): PersonalMinimums {
+  const o = asRecord(x) ?? {}; const num = (v: unknown) => csvNum(v==null ? '' : String(v));
+  return { minMarginPct: num(o.minMarginPct), minMarginFt: num(o.minMarginFt), maxDaFt: num(o.maxDaFt), maxCrosswindKt: num(o.maxCrosswindKt), maxTailwindKt: num(o.maxTailwindKt), minCategory: MIN_CATEGORIES.find(c => c===o.minCategory) ?? null, maxMetarAgeMin: num(o.maxMetarAgeMin) };
+}
+function normalizePilot(x: unknown): PilotProfile | null {
+  const o = asRecord(x); if (!o || typeof o.name !== 'string' || !o.name.trim()) return null;
+  return { id: typeof o.id==='string' && o.id ? o.id : newProfileId(), name: o.name.trim(), minimums: normalizeMinimums(o.minimums) };
+}
+function loadPilots(): PilotProfile[] {
+  try { const j: unknown = JSON.parse(localStorage.getItem(PILOTS_STORAGE_KEY) ?? '[]'); return Array.isArray(j) ? j.map(normalizePilot).filter((p): p is PilotProfile => p!=null) : []; } catch { return []; }
+}
+function savePilots(list: PilotProfile[]){ try { localStorage.setItem(PILOTS_STORAGE_KEY, JSON.stringify(list)); } catch { /* storage unavailable */ } }
+function minimumsToDraft(m: PersonalMinimums, u: UnitPrefs): MinimumsDraft {
+  const s = (v: number | null) => v==null ? '' : String(v);
+  return convertDraft({ minMarginPct: s(m.minMarginPct), minMarginFt: s(m.minMarginFt), maxDaFt: s(m.maxDaFt), maxCrosswindKt: s(m.maxCrosswindKt), maxTailwindKt: s(m.maxTailwindKt), minCategory: m.minCategory ?? '', maxMetarAgeMin: s(m.maxMetarAgeMin) }, MINIMUMS_DRAFT_UNITS, DEFAULT_UNIT_PREFS, u);
+}
+function draftToMinimums(d: MinimumsDraft, u: UnitPrefs): PersonalMinimums { return normalizeMinimums(convertDraft(d, MINIMUMS_DRAFT_UNITS, u, DEFAULT_UNIT_PREFS)); }
+
+/************ Permalinks ************/
+// Short URL parameter per calculator field. Values are the raw input strings in the units named by ua/ud/up/ut/uw,
+// so a link reproduces exactly what was entered.
+const SHARE_PARAMS = [
+  's','m','taf','dep','ua','ud','up','ut','uw','elev','t','pa','alt','rl','rwy','b','mode','poh','basis','w','rw','xw','sfc','slope','margin','aw','as','asl','awt',
+  'lrwy','ll','lb','lsfc','lslope','law','las','lasl','roc','ias','dpg','obh','obd',
+] as const;
+type ShareState = Partial<Record<typeof SHARE_PARAMS[number], string>>;
+function readShareState(search: string): ShareState {
+  const q = new URLSearchParams(search); return Object.fromEntries(SHARE_PARAMS.flatMap(k => q.has(k) ? [[k, q.get(k)!]] : []));
+}
+function shareQuery(st: ShareState){ const q = new URLSearchParams(); for (const k of SHARE_PARAMS){ const v = st[k]; if (v) q.set(k, v); } return q.toString(); }
+
+/************ Calculation history ************/
+const HISTORY_STORAGE_KEY = 'climbcheck.history.v1';
+const HISTORY_LIMIT = 500;
+const HISTORY_SETTLE_MS = 3000;
+function loadHistory(): HistoryEntry[] {
+  try { const j: unknown = JSON.parse(localStorage.getItem(HISTORY_STORAGE_KEY) ?? '[]'); return Array.isArray(j) ? j.map(normalizeHistoryEntry).filter((e): e is HistoryEntry => e!=null) : []; } catch { return []; }
+}
+function saveHistory(list: HistoryEntry[]){ try { localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(list)); } catch { /* storage unavailable */ } }
+function localDay(ms: number){ const d = new Date(ms); return `${d.getFullYear()}-${pad2(d.getMonth()+1)}-${pad2(d.getDate())}`; }
+
+function MetarSrc({ f }:{ f: MetarField<unknown> | null | undefined }){
+  if (!f) return null;
+  return <span className="ml-1 font-mono text-[10px] text-slate-400" title={f.source==='remarks' ? 'Decoded from remarks' : 'Decoded from report body'}>[{f.source==='remarks' ? 'RMK ' : ''}{f.token}]</span>;
+}
+// Visibility follows the distance preference: metres/km for metric, statute miles for feet.
+function formatMetarVisibility(v: MetarVisibility, fmt: UnitFormat){
+  if (v.cavok) return `CAVOK (≥10 km, no cloud below ${fmt.prefs.altitude==='m' ? '1500 m' : '5000 ft'})`;
+  const q = v.qualifier==='lt' ? '<' : v.qualifier==='gt' ? '≥' : '';
+  return fmt.prefs.distance==='m' ? `${q}${v.meters >= 5000 ? `${round(v.meters/1000,1)} km` : `${Math.round(v.meters)} m`}` : `${q}${round(v.sm,2)} SM`;
 }
-function getFlightCategory(visStr:string|null, clouds:string[]){
-  const vis = visStr && visStr.includes('SM') ? parseFloat(visStr.replace('SM','')) : NaN;
-  let ceiling = 99999;
-  for (const c of clouds){ const type=c.slice(0,3); const height=Number(c.slice(3))*100; if(['BKN','OVC'].includes(type)) ceiling=Math.min(ceiling,height); }
-  if(!isFinite(vis) || vis===0) return {cat:'UNK',color:'text-slate-500'};
-  if (ceiling<500 || vis<1) return {cat:'LIFR',color:'text-purple-600'};
-  if (ceiling<1000 || vis<3) return {cat:'IFR',color:'text-red-600'};
-  if (ceiling<=3000 || vis<=5) return {cat:'MVFR',color:'text-blue-600'};
-  return {cat:'VFR',color:'text-emerald-600'};
+function formatWindSpeed(w: { speedKt: number; gustKt: number | null }, fmt: UnitFormat){
+  const v = (kt: number) => round(fromKt(kt, fmt.prefs.wind));
+  return `${v(w.speedKt)}${w.gustKt!=null ? `G${v(w.gustKt)}` : ''} ${fmt.windUnit}`;
 }
-function DecodedMetar({ raw }:{ raw:string }){
+function formatMetarWind(w: MetarWind, fmt: UnitFormat){
+  if (w.calm) return 'Calm';
+  const unitNote = w.unit!=='KT' ? ` (reported in ${w.unit})` : '';
+  const sector = (w.varFromDeg!=null && w.varToDeg!=null) ? `, variable ${String(w.varFromDeg).padStart(3,'0')}°–${String(w.varToDeg).padStart(3,'0')}°` : '';
+  return `${w.dirDeg==null ? 'VRB' : String(w.dirDeg).padStart(3,'0')+'°'} ${formatWindSpeed(w, fmt)}${unitNote}${sector}`;
+}
+function formatMetarCloud(c: MetarCloud, fmt: UnitFormat){ return `${c.cover==='VV' ? 'Vert vis' : c.cover} ${c.baseFt!=null ? fmt.alt(c.baseFt) : '///'}${c.convective ? ` ${c.convective}` : ''}`; }
+function formatMetarWeather(w: MetarWeather){ return `${w.intensity==='light' ? '-' : w.intensity==='heavy' ? '+' : w.intensity==='vicinity' ? 'VC' : ''}${w.descriptor ?? ''}${w.phenomena.join('')}`; }
+const FLIGHT_CATEGORY_COLORS: Record<FlightCategory, string> = { VFR: 'text-emerald-600', MVFR: 'text-blue-600', IFR: 'text-red-600', LIFR: 'text-purple-600', UNK: 'text-slate-500' };
+const GO_STATUS_COLORS: Record<GoStatus, string> = { GO: 'bg-emerald-600 text-white', CAUTION: 'bg-amber-500 text-white', 'NO-GO': 'bg-rose-600 text-white' };
+const GO_STATUS_TEXT: Record<GoStatus, string> = { GO: 'text-emerald-600', CAUTION: 'text-amber-600', 'NO-GO': 'text-rose-600' };
+function DecodedMetar({ raw, fmt }:{ raw:string; fmt:UnitFormat }){
   if (!raw) return null;
-  const base  = parseMetarMore(raw);
-  const pprec = parseMetarPrecise(raw);
-  const tokens = (raw || "").replace("="," ").split(/\s+/).map(t=>t.trim()).filter(Boolean);
-  const qTok = tokens.find(t => /^Q\d{4}$/.test(t));
-  const aTok = tokens.find(t => /^A\d{4}$/.test(t));
-  let altLine = '–';
-  if (qTok) { const qv = Number(qTok.slice(1)); altLine = `QNH ${Math.round(qv)} hPa / ${round(hpaToInHg(qv),2)} inHg`; }
-  else if (aTok) { const av = Number(aTok.slice(1))/100; altLine = `${round(av,2)} inHg / QNH ${Math.round(inHgToHpa(av))} hPa`; }
-  else if (base.altInHg != null) { altLine = `${round(base.altInHg,2)} inHg / QNH ${Math.round(inHgToHpa(base.altInHg))} hPa`; }
-  const cat = getFlightCategory(base.visSM, base.clouds);
+  const m = decodeMetar(raw);
+  const alt = m.altimeter?.value;
+  const altLine = !alt ? '–' : `${fmt.prefs.pressure==='hPa' ? 'QNH ' : ''}${fmt.press(alt.inHg)}`;
+  const cat = flightCategory(m);
+  const flags = [m.auto && 'AUTO', m.corrected && 'COR', m.nil && 'NIL'].filter(Boolean).join(' ');
   return (
     <div className="mb-3 text-xs text-slate-700 border-t pt-2">
       <div className="font-semibold mb-1">Decoded METAR</div>
       <div className="grid grid-cols-2 sm:grid-cols-3 gap-x-2 gap-y-1">
-        <div><span className="text-slate-500">Type:</span> {base.type}</div>
-        <div><span className="text-slate-500">Time:</span> {base.time}</div>
-        <div><span className="text-slate-500">Temp:</span> {base.tempC!=null ? `${base.tempC} °C / ${round(cToF(base.tempC),1)} °F` : '–'}</div>
-        <div><span className="text-slate-500">Dew:</span> {pprec.dewC!=null ? `${round(pprec.dewC,1)} °C / ${round(cToF(pprec.dewC),1)} °F` : '–'}</div>
-        <div><span className="text-slate-500">Altimeter:</span> {altLine}</div>
-        <div><span className="text-slate-500">Wind:</span> {base.wind ?? '–'}</div>
-        <div><span className="text-slate-500">Vis:</span> {base.visSM ?? '–'}</div>
-        <div><span className="text-slate-500">Clouds:</span> {base.clouds.join(', ')||'–'}</div>
-        <div><span className="text-slate-500">WX:</span> {base.wx.join(' ')||'–'}</div>
-        <div className={cat.color}><span className="text-slate-500">Flight Cat:</span> <span className="font-medium">{cat.cat}</span></div>
+        <div><span className="text-slate-500">Type:</span> {m.type ?? 'METAR'}{flags ? ` (${flags})` : ''}</div>
+        <div><span className="text-slate-500">Station:</span> {m.station ?? '–'}</div>
+        <div><span className="text-slate-500">Time:</span> {m.time ? `Day ${m.time.value.day}, ${pad2(m.time.value.hour)}:${pad2(m.time.value.minute)}Z` : '–'}<MetarSrc f={m.time} /></div>
+        <div><span className="text-slate-500">Temp:</span> {m.tempC ? fmt.temp(m.tempC.value) : '–'}<MetarSrc f={m.tempC} /></div>
+        <div><span className="text-slate-500">Dew:</span> {m.dewC ? fmt.temp(m.dewC.value) : '–'}<MetarSrc f={m.dewC} /></div>
+        <div><span className="text-slate-500">Altimeter:</span> {altLine}<MetarSrc f={m.altimeter} /></div>
+        <div><span className="text-slate-500">Wind:</span> {m.wind ? formatMetarWind(m.wind.value, fmt) : '–'}<MetarSrc f={m.wind} /></div>
+        <div><span className="text-slate-500">Vis:</span> {m.visibility ? formatMetarVisibility(m.visibility.value, fmt) : '–'}<MetarSrc f={m.visibility} /></div>
+        <div><span className="text-slate-500">Clouds:</span> {m.clouds.map(c => formatMetarCloud(c.value, fmt)).join(', ') || m.skyClear?.value || '–'}</div>
+        <div><span className="text-slate-500">WX:</span> {m.weather.map(w => `${w.token} (${w.value.recent ? 'recent' : w.value.intensity})`).join(', ') || '–'}</div>
+        {m.rvr.length > 0 && <div><span className="text-slate-500">RVR:</span> {m.rvr.map(v => `${v.value.runway} ${v.value.qualifier==='lt' ? '<' : v.value.qualifier==='gt' ? '>' : ''}${v.value.maxFt!=null ? `${Math.round(fromFt(v.value.minFt, fmt.prefs.distance))}–${fmt.dist(v.value.maxFt)}` : fmt.dist(v.value.minFt)}`).join(', ')}</div>}
+        {m.trend && <div><span className="text-slate-500">Trend:</span> {m.trend}</div>}
+        <div className={FLIGHT_CATEGORY_COLORS[cat]}><span className="text-slate-500">Flight Cat:</span> <span className="font-medium">{cat}</span></div>
       </div>
+      {m.unrecognized.length > 0 && <div className="mt-1 text-amber-600">Unrecognized: <span className="font-mono">{m.unrecognized.join(' ')}</span></div>}
     </div>
   );
 }
 
 /************ Graph ************/
-function KochGraph({ paFt, tempC, fieldElevFt, mode, dewC }:{ paFt:number; tempC:number; fieldElevFt:number; mode:'rot'|'precise'|'legacy'; dewC?:number|null; }){
+function KochGraph({ paFt, tempC, fieldElevFt, mode: perfMode, dewC, poh, limitTempC, fmt }:{ paFt:number; tempC:number; fieldElevFt:number; mode:PerfMode; dewC?:number|null; poh?:{ table:PohTable; weightLb:number|null; basis:'groundRoll'|'over50' }|null; limitTempC?:number|null; fmt:UnitFormat; }){
+  // The curve is computed in whole °C and plotted against the preferred temperature unit.
+  const tu = fmt.prefs.temperature; const xOf = (c:number) => round(fromC(c, tu), 2);
+  // In POH mode the Koch curve is drawn from Precise DA for comparison; the table is plotted as % over its own sea-level ISA value.
+  const mode: KochModel = perfMode==='poh' ? 'precise' : perfMode;
+  const pohPct = useMemo(() => {
+    if (!poh) return null;
+    const dist = (pa:number, t:number) => { const r = pohLookup(poh.table, pa, t, poh.weightLb); return poh.basis==='over50' && r.over50Ft!=null ? r.over50Ft : r.groundRollFt; };
+    const isa = dist(0, 15); return isa > 0 ? (pa:number, t:number) => (dist(pa, t)/isa - 1)*100 : null;
+  }, [poh]);
   const data = useMemo(() => {
-    const pts: { xTemp:number; toPct:number; rocPct:number }[] = []; const base = isFinite(tempC) ? tempC : 15; const start = Math.floor(base - 25); const end = Math.ceil(base + 25);
+    const pts: { xTemp:number; toPct:number; rocPct:number; pohPct?:number }[] = []; const base = isFinite(tempC) ? tempC : 15;
+    // Widen the range so the runway-limit line stays in view.
+    const start = Math.floor(Math.min(base - 25, limitTempC!=null && isFinite(limitTempC) ? limitTempC - 5 : Infinity)); const end = Math.ceil(Math.max(base + 25, limitTempC!=null && isFinite(limitTempC) ? limitTempC + 5 : -Infinity));
     for (let t = start; t <= end; t++){
-      const da = mode==='precise'? preciseDensityAltitudeFt(paFt, t, dewC) : densityAltitudeRuleOfThumbFt(paFt, t, fieldElevFt);
-      const toF = (mode==='legacy' ? (1 + 0.125*(da/1000)) : (1 + 0.15*(da/1000)));
-      const rocF = mode==='legacy' ? NaN : Math.max(0, 1 - 0.075*(da/1000));
-      const rocPctVal = mode==='legacy' ? (0.096*(da/1000)*100) : ((1-rocF)*100);
-      pts.push({ xTemp:t, toPct:(toF-1)*100, rocPct: rocPctVal });
+      const da = densityAltitudeFt(mode, paFt, t, fieldElevFt, dewC);
+      pts.push({ xTemp:xOf(t), toPct:(kochTakeoffFactor(da, mode)-1)*100, rocPct: kochClimbLossPct(da, mode), ...(pohPct ? { pohPct: pohPct(paFt, t) } : {}) });
     }
     return pts;
-  }, [paFt, tempC, fieldElevFt, mode, dewC]);
+  }, [paFt, tempC, fieldElevFt, mode, dewC, pohPct, limitTempC, tu]);
   const current = useMemo(() => {
     if (!isFinite(paFt) || !isFinite(tempC) || !isFinite(fieldElevFt)) return null;
-    const da = mode==='precise'? preciseDensityAltitudeFt(paFt, tempC, dewC) : densityAltitudeRuleOfThumbFt(paFt, tempC, fieldElevFt);
-    return { xTemp: tempC, toPct:(((mode==='legacy' ? (1 + 0.125*(da/1000)) : (1 + 0.15*(da/1000)))) - 1)*100, rocPct:(mode==='legacy' ? (0.096*(da/1000)*100) : ((1 - Math.max(0, 1 - 0.075*(da/1000)))*100)) };
-  }, [paFt, tempC, fieldElevFt, mode, dewC]);
+    const da = densityAltitudeFt(mode, paFt, tempC, fieldElevFt, dewC);
+    return { xTemp: xOf(tempC), toPct:(kochTakeoffFactor(da, mode)-1)*100, rocPct: kochClimbLossPct(da, mode) };
+  }, [paFt, tempC, fieldElevFt, mode, dewC, tu]);
   return (
     <div style={{ width: "100%", height: 300 }}>
       <ResponsiveContainer>
         <LineChart data={data} margin={{ top: 10, right: 20, left: 0, bottom: 10 }}>
           <CartesianGrid strokeDasharray="3 3" stroke="#d1d5db" />
-          <XAxis type="number" dataKey="xTemp" name="Temperature" unit="°C" stroke="#374151" />
+          <XAxis type="number" dataKey="xTemp" name="Temperature" unit={`°${tu}`} stroke="#374151" />
           <YAxis yAxisId="left"  orientation="left"  domain={[0,'auto']} tickFormatter={(v)=>`${Math.round(v)}%`} label={{ value: '% Increase (TO)', angle: -90, position: 'insideLeft', fill:'#374151' }} />
           <YAxis yAxisId="right" orientation="right" domain={[0,'auto']} tickFormatter={(v)=>`${Math.round(v)}%`} label={{ value: '% Decrease (ROC)', angle:  90, position: 'insideRight', fill:'#374151' }} />
-          <Tooltip formatter={(v: number) => `${round(v,1)}%`} labelFormatter={(l) => `Temp ${l} °C`} />
+          <Tooltip formatter={(v: number) => `${round(v,1)}%`} labelFormatter={(l) => `Temp ${round(Number(l),1)} °${tu}`} />
           <Legend />
           <Line yAxisId="left"  type="monotone" dataKey="toPct"  name="Takeoff Distance +%" stroke="#8b0000" strokeWidth={2.5} dot={false} />
           <Line yAxisId="right" type="monotone" dataKey="rocPct" name={"ROC −%"} stroke="#004d4d" strokeWidth={2.5} dot={false} />
+          {pohPct && <Line yAxisId="left" type="monotone" dataKey="pohPct" name="POH Table TO +%" stroke="#b45309" strokeWidth={2} strokeDasharray="6 3" dot={false} />}
+          {limitTempC!=null && isFinite(limitTempC) && <ReferenceLine x={xOf(limitTempC)} yAxisId="left" stroke="#e11d48" strokeDasharray="4 4" label={{ value: `Runway limit ${fmt.temp(limitTempC)}`, position: 'insideTopRight', fill: '#e11d48', fontSize: 11 }} />}
           {current && <ReferenceDot x={current.xTemp} y={current.toPct} r={5} yAxisId="left" fill="#8b0000" />}
           {current && <ReferenceDot x={current.xTemp} y={current.rocPct} r={5} yAxisId="right" fill="#004d4d" />}
+          {current && pohPct && <ReferenceDot x={current.xTemp} y={pohPct(paFt, tempC)} r={5} yAxisId="left" fill="#b45309" />}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+/************ Climb Profile Graph ************/
+// Heights are above the departure end of the runway (DER); the obstacle is drawn as a marker at its distance from the DER.
+function ClimbProfileGraph({ gradientFtPerNm, heightAtDerFt, requiredFtPerNm, obstacle, fmt }:{ gradientFtPerNm:number; heightAtDerFt:number; requiredFtPerNm:number|null; obstacle:{ heightFt:number; distNm:number }|null; fmt:UnitFormat; }){
+  const au = fmt.prefs.altitude;
+  const data = useMemo(() => {
+    const maxNm = Math.max(3, obstacle ? obstacle.distNm * 1.5 : 0); const pts: { xNm:number; climb:number; required?:number }[] = [];
+    for (let i = 0; i <= 30; i++){ const x = maxNm * i / 30; pts.push({ xNm: round(x, 2), climb: fromFt(heightAtDerFt + gradientFtPerNm * x, au), ...(requiredFtPerNm!=null ? { required: fromFt(requiredFtPerNm * x, au) } : {}) }); }
+    return pts;
+  }, [gradientFtPerNm, heightAtDerFt, requiredFtPerNm, obstacle, au]);
+  const clearanceFt = obstacle ? heightAtDerFt + gradientFtPerNm * obstacle.distNm - obstacle.heightFt : null;
+  return (
+    <div style={{ width: "100%", height: 300 }}>
+      <ResponsiveContainer>
+        <LineChart data={data} margin={{ top: 10, right: 20, left: 0, bottom: 10 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#d1d5db" />
+          <XAxis type="number" dataKey="xNm" name="Distance from DER" unit=" NM" stroke="#374151" domain={[0, 'dataMax']} />
+          <YAxis domain={[0,'auto']} tickFormatter={(v)=>`${Math.round(v)}`} label={{ value: `Height above DER (${au})`, angle: -90, position: 'insideLeft', fill:'#374151' }} />
+          <Tooltip formatter={(v: number) => `${Math.round(v)} ${au}`} labelFormatter={(l) => `${l} NM from DER`} />
+          <Legend />
+          <Line type="monotone" dataKey="climb" name="Expected climb path" stroke="#004d4d" strokeWidth={2.5} dot={false} />
+          {requiredFtPerNm!=null && <Line type="monotone" dataKey="required" name="Required gradient" stroke="#8b0000" strokeWidth={2} strokeDasharray="6 3" dot={false} />}
+          {obstacle && <ReferenceDot x={obstacle.distNm} y={fromFt(obstacle.heightFt, au)} r={6} fill={clearanceFt!=null && clearanceFt >= 0 ? '#6b7280' : '#e11d48'} label={{ value: `Obstacle (${clearanceFt!=null && clearanceFt >= 0 ? '+' : ''}${fmt.alt(clearanceFt ?? 0)})`, position: 'top', fill: '#374151', fontSize: 11 }} />}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+/************ Forecast Timeline Graph ************/
+const FORECAST_STEP_MS = 30*60e3;
+type ForecastPoint = { atMs: number; tempC: number | null; daFt: number | null; requiredFt: number | null; marginFt: number | null; temporary: boolean };
+function ForecastTimelineGraph({ points, departureMs, runwayFt, fmt }:{ points: ForecastPoint[]; departureMs: number | null; runwayFt: number; fmt: UnitFormat }){
+  const hasDistance = points.some(p => p.requiredFt!=null);
+  const { altitude: au, distance: du } = fmt.prefs;
+  const data = useMemo(() => {
+    const conv = (v: number | null, u: 'ft'|'m') => v==null ? null : Math.round(fromFt(v, u));
+    return points.map(p => ({ ...p, daFt: conv(p.daFt, au), requiredFt: conv(p.requiredFt, du), marginFt: conv(p.marginFt, du) }));
+  }, [points, au, du]);
+  return (
+    <div style={{ width: "100%", height: 300 }}>
+      <ResponsiveContainer>
+        <LineChart data={data} margin={{ top: 10, right: 20, left: 0, bottom: 10 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#d1d5db" />
+          <XAxis type="number" dataKey="atMs" domain={['dataMin','dataMax']} tickFormatter={(v)=>formatDayTimeZ(v)} stroke="#374151" />
+          <YAxis yAxisId="da" domain={['auto','auto']} tickFormatter={(v)=>`${Math.round(v)}`} label={{ value: `Density altitude (${au})`, angle: -90, position: 'insideLeft', fill:'#374151' }} />
+          {hasDistance && <YAxis yAxisId="dist" orientation="right" domain={[0,'auto']} tickFormatter={(v)=>`${Math.round(v)}`} />}
+          <Tooltip labelFormatter={(l) => formatDayTimeZ(Number(l))} formatter={(v: number, name: string) => [`${Math.round(v)} ${name==='Density altitude' ? au : du}`, name]} />
+          <Legend />
+          <Line yAxisId="da" type="monotone" dataKey="daFt" name="Density altitude" stroke="#004d4d" strokeWidth={2.5} dot={false} />
+          {hasDistance && <Line yAxisId="dist" type="stepAfter" dataKey="requiredFt" name="Required takeoff distance" stroke="#8b0000" strokeWidth={2} dot={false} />}
+          {hasDistance && <Line yAxisId="dist" type="stepAfter" dataKey="marginFt" name="Runway margin" stroke="#2563eb" strokeWidth={1.5} strokeDasharray="5 3" dot={false} />}
+          {hasDistance && runwayFt > 0 && <ReferenceLine yAxisId="dist" y={fromFt(runwayFt, du)} stroke="#6b7280" strokeDasharray="4 4" label={{ value: 'Runway', position: 'insideTopRight', fill: '#6b7280', fontSize: 11 }} />}
+          {departureMs!=null && <ReferenceLine yAxisId="da" x={departureMs} stroke="#e11d48" label={{ value: 'Departure', position: 'insideTopLeft', fill: '#e11d48', fontSize: 11 }} />}
         </LineChart>
       </ResponsiveContainer>
     </div>
@@ -148,12 +293,15 @@ function KochGraph({ paFt, tempC, fieldElevFt, mode, dewC }:{ paFt:number; tempC
 }
 
 /************ Authentic Runway Graphic ************/
-function RunwayGraphic({ rwFt, requiredFt, ok, overByFt, pctUsed }:{ rwFt:number; requiredFt:number; ok:boolean; overByFt:number; pctUsed:number; }){
+function RunwayGraphic({ rwFt, requiredFt, ok, overByFt, pctUsed, runway, wind, usageLabel = 'Required distance', fmt }:{ rwFt:number; requiredFt:number; ok:boolean; overByFt:number; pctUsed:number; runway?:RunwayIdent|null; wind?:WindObs|null; usageLabel?:string; fmt:UnitFormat; }){
+  // The takeoff or landing roll runs left → right, so the arrow is rotated by the wind's travel direction relative to the runway heading.
+  const arrowDeg = (runway && wind && wind.dirDeg != null) ? (wind.dirDeg + 180 - runway.headingDeg) : null;
+  const windLabel = wind ? `${wind.dirDeg==null ? 'VRB' : String(wind.dirDeg).padStart(3,'0')+'°'} ${formatWindSpeed(wind, fmt)}${wind.varFromDeg!=null && wind.varToDeg!=null ? ` (${String(wind.varFromDeg).padStart(3,'0')}V${String(wind.varToDeg).padStart(3,'0')})` : ''}` : '';
   return (
     <div className="mt-2">
       <div className="mb-1 flex items-center justify-between text-xs text-slate-500">
-        <span>0 ft</span>
-        <span>{isFinite(rwFt) ? `${Math.round(rwFt)} ft runway` : ''}</span>
+        <span>0 {fmt.prefs.distance}</span>
+        <span>{isFinite(rwFt) ? `${fmt.dist(rwFt)} runway` : ''}</span>
       </div>
       <div className="relative w-full overflow-hidden rounded-md border border-slate-300" style={{ height: 64, background: '#3a3a3a', boxShadow: 'inset 0 2px 6px rgba(0,0,0,0.25)' }} aria-label="Runway usage graphic">
         {/* Usage overlay */}
@@ -162,12 +310,24 @@ function RunwayGraphic({ rwFt, requiredFt, ok, overByFt, pctUsed }:{ rwFt:number
         <div className="absolute left-1 top-1 bottom-1 w-9" style={{ background: 'repeating-linear-gradient(180deg, #fff 0, #fff 6px, transparent 6px, transparent 12px)', opacity: 0.92, zIndex: 3 }} />
         <div className="absolute right-1 top-1 bottom-1 w-9" style={{ background: 'repeating-linear-gradient(180deg, #fff 0, #fff 6px, transparent 6px, transparent 12px)', opacity: 0.92, zIndex: 3 }} />
         {/* Runway numbers beyond keys */}
-        <div className="absolute left-12 top-1/2 select-none" style={{ transform: 'translateY(-50%) rotate(90deg)', zIndex: 5 }}>
-          <span className="font-black text-white/90" style={{ fontSize: 28, letterSpacing: 2 }}>18</span>
-        </div>
-        <div className="absolute right-12 top-1/2 select-none" style={{ transform: 'translateY(-50%) rotate(-90deg)', zIndex: 5 }}>
-          <span className="font-black text-white/90" style={{ fontSize: 28, letterSpacing: 2 }}>9</span>
-        </div>
+        {runway && (
+          <>
+            <div className="absolute left-12 top-1/2 select-none" style={{ transform: 'translateY(-50%) rotate(90deg)', zIndex: 5 }}>
+              <span className="font-black text-white/90" style={{ fontSize: 28, letterSpacing: 2 }}>{runway.ident}</span>
+            </div>
+            <div className="absolute right-12 top-1/2 select-none" style={{ transform: 'translateY(-50%) rotate(-90deg)', zIndex: 5 }}>
+              <span className="font-black text-white/90" style={{ fontSize: 28, letterSpacing: 2 }}>{runway.recipIdent}</span>
+            </div>
+          </>
+        )}
+        {/* Wind arrow */}
+        {arrowDeg != null && (
+          <div className="absolute left-1/2 top-1/2 select-none" style={{ transform: 'translate(-50%,-50%)', zIndex: 5 }} title={`Wind ${windLabel}`}>
+            <svg width="44" height="44" viewBox="-22 -22 44 44" style={{ transform: `rotate(${arrowDeg}deg)` }}>
+              <path d="M-16 0 H12 M4 -8 L14 0 L4 8" stroke="#facc15" strokeWidth={3.5} fill="none" strokeLinecap="round" strokeLinejoin="round" />
+            </svg>
+          </div>
+        )}
         {/* Distance ticks */}
         {[25,50,75,100].map((p)=> (
           <div key={p} className="absolute top-0 bottom-0 w-px bg-white/20" style={{ left: `${p}%`, zIndex: 2 }} />
@@ -175,160 +335,910 @@ function RunwayGraphic({ rwFt, requiredFt, ok, overByFt, pctUsed }:{ rwFt:number
         {/* Overrun label */}
         {!ok && (
           <div className="absolute inset-y-0 right-0 flex items-center justify-end pr-2 text-[10px] font-semibold text-white" style={{ zIndex: 6 }}>
-            Over by {Math.round(overByFt)} ft
+            Over by {fmt.dist(overByFt)}
           </div>
         )}
       </div>
       <div className="mt-1 flex flex-wrap items-center gap-3 text-xs text-slate-600">
-        <span className="inline-flex items-center gap-1"><span className="inline-block h-2 w-3 rounded-sm" style={{ background: 'rgba(16,185,129,0.6)' }} /> Required distance</span>
+        <span className="inline-flex items-center gap-1"><span className="inline-block h-2 w-3 rounded-sm" style={{ background: 'rgba(16,185,129,0.6)' }} /> {usageLabel}</span>
         <span className="inline-flex items-center gap-1"><span className="inline-block h-2 w-3 rounded-sm bg-slate-400" /> Runway surface</span>
         <span className="inline-flex items-center gap-1"><span className="inline-block h-2 w-3 rounded-sm" style={{ background: 'rgba(244,63,94,0.6)' }} /> Insufficient runway</span>
+        {wind && <span className="inline-flex items-center gap-1"><span className="inline-block h-2 w-3 rounded-sm bg-yellow-400" /> Wind {windLabel}</span>}
       </div>
     </div>
   );
 }
 
+/************ Distance breakdown ************/
+function DistanceBreakdown({ steps, corrections, startFt, totalFt, fmt }:{ steps:{ label:string; factor?:number; ft:number }[]; corrections:CorrectionLine[]; startFt:number; totalFt:number; fmt:UnitFormat; }){
+  let runningFt = steps.length ? steps[steps.length-1].ft : 0;
+  return (
+    <table className="w-full text-xs md:w-2/3">
+      <tbody className="divide-y divide-slate-100">
+        {steps.map((st, i) => (
+          <tr key={i}><td className="py-1 pr-2">{st.label}</td><td className="py-1 pr-2 text-slate-500">{st.factor!=null ? `×${round(st.factor,3)}` : ''}</td><td className="py-1 text-right">{fmt.dist(st.ft)}</td></tr>
+        ))}
+        {corrections.map(c => { if (c.enabled) runningFt *= c.factor; return (
+          <tr key={c.key} className={c.enabled ? '' : 'text-slate-400'}>
+            <td className="py-1 pr-2">{c.label}{c.note ? ` (${c.note})` : ''}</td>
+            <td className="py-1 pr-2 text-slate-500">{c.enabled ? `×${round(c.factor,3)}` : 'off'}</td>
+            <td className="py-1 text-right">{c.enabled ? fmt.dist(runningFt) : ''}</td>
+          </tr>
+        ); })}
+        <tr className="font-medium"><td className="py-1 pr-2">Corrected total</td><td className="py-1 pr-2 text-slate-500">×{round(totalFt / Math.max(1e-9, startFt), 3)}</td><td className="py-1 text-right">{fmt.dist(totalFt)}</td></tr>
+      </tbody>
+    </table>
+  );
+}
+
 /************ Main App ************/
+// elev/runwayLen/runwayId are typed in (display units) for stations the airport database lacks.
+type ComparisonEntry = { station: string; raw: string; status: string; runwayKey: string; elev: string; runwayLen: string; runwayId: string };
+type ComparisonSortKey = 'station'|'category'|'daRot'|'daPrecise'|'required'|'margin'|'head'|'cross';
+const COMPARISON_COLUMNS: { key: ComparisonSortKey; label: string; unit?: UnitDim; value: (r: StationComparison) => number | string | null }[] = [
+  { key: 'station', label: 'Station', value: r => r.station },
+  { key: 'category', label: 'Cat', value: r => r.category!=='UNK' ? FLIGHT_CATEGORY_RANK[r.category] : null },
+  { key: 'daRot', label: 'DA RoT', unit: 'altitude', value: r => r.daRotFt },
+  { key: 'daPrecise', label: 'DA Precise', unit: 'altitude', value: r => r.daPreciseFt },
+  { key: 'required', label: 'Required', unit: 'distance', value: r => r.result?.requiredFt ?? null },
+  { key: 'margin', label: 'Margin', unit: 'distance', value: r => r.result?.marginFt ?? null },
+  { key: 'head', label: 'Head/Tail', unit: 'wind', value: r => r.wind?.headKt ?? null },
+  { key: 'cross', label: 'Cross', unit: 'wind', value: r => r.wind ? Math.abs(r.wind.gustCrossKt) : null },
+];
+function parseStationList(text: string){ return Array.from(new Set(text.toUpperCase().split(/[\s,;]+/).filter(Boolean))); }
+
 export default function App(){
+  const [units, setUnits] = useState<UnitPrefs>(loadUnitPrefs);
+  const fmt = useMemo(() => unitFormat(units), [units]);
+  useEffect(() => { try { localStorage.setItem(UNITS_STORAGE_KEY, JSON.stringify(units)); } catch { /* storage unavailable */ } }, [units]);
   const [icao, setIcao] = useState("");
-  const [proxy] = useState<string>("https://api.allorigins.win/raw?url=");
-  const wrap = (url: string) => { const p=(proxy??"").trim(); try{ const full = (p? `${p}${encodeURIComponent(url)}` : url); new URL(full); return full; }catch{ return url; } };
+  const [airportDb, setAirportDb] = useState<AirportDb>(loadAirportDb);
+  const [airportDbStatus, setAirportDbStatus] = useState("");
+  const [weather, setWeather] = useState<WeatherSettings>(loadWeatherSettings);
+  const [metarFile, setMetarFile] = useState<{ text: string; name: string }>({ text: '', name: '' });
+  const updateWeather = (patch: Partial<WeatherSettings>) => setWeather(w => ({ ...w, ...patch }));
+  // Inputs hold whatever was typed; fetching and the staleness check use the clamped settings.
+  const weatherCfg = useMemo(() => normalizeWeatherSettings(weather), [weather]);
+  useEffect(() => { try { localStorage.setItem(WEATHER_STORAGE_KEY, JSON.stringify(weatherCfg)); } catch { /* storage unavailable */ } }, [weatherCfg]);
 
   const [metarRaw, setMetarRaw] = useState("");
   const [metarStatus, setMetarStatus] = useState("Enter ICAO/LID and click Fetch");
-  const [fieldElevation, setFieldElevation] = useState<string>(""); // ft
-  const [tempUnit, setTempUnit] = useState<'C'|'F'>("C");
+  const [tafRaw, setTafRaw] = useState("");
+  const [tafStatus, setTafStatus] = useState("");
+  const [departureMs, setDepartureMs] = useState<number|null>(null); // null: current METAR conditions
+  // Elevation, PA, temperature, altimeter, lengths, crosswind limit and obstacle height are typed in the preferred units.
+  const [fieldElevation, setFieldElevation] = useState<string>("");
   const [tempVal, setTempVal] = useState<string>("");
   const [paVal, setPaVal] = useState<string>("");
+  const [altimeterVal, setAltimeterVal] = useState<string>("");
   const [altimeterInHg, setAltimeterInHg] = useState<number|null>(null);
   const [runwayLen, setRunwayLen] = useState<string>("");
-  const [runwayUnit, setRunwayUnit] = useState<'ft'|'m'>("ft");
   const [baselineTO, setBaselineTO] = useState<string>("");
-  const [baselineUnit, setBaselineUnit] = useState<'ft'|'m'>("ft");
-  const [kochMode, setKochMode] = useState<'rot'|'precise'|'legacy'>("precise");
+  const [kochMode, setKochMode] = useState<PerfMode>("precise");
+  const [pohText, setPohText] = useState<string>(loadPohTableText);
+  const [takeoffWeight, setTakeoffWeight] = useState<string>(""); // lb
+  const [pohBasis, setPohBasis] = useState<'groundRoll'|'over50'>("over50");
+  const [profiles, setProfiles] = useState<AircraftProfile[]>(loadProfiles);
+  const [profileId, setProfileId] = useState<string>(() => { try { return localStorage.getItem(SELECTED_PROFILE_STORAGE_KEY) ?? ''; } catch { return ''; } });
+  const [profileDraft, setProfileDraft] = useState<ProfileDraft>(() => { const p = loadProfiles().find(p => p.id===profileId); return p ? profileToDraft(p, units) : EMPTY_PROFILE_DRAFT; });
+  const [profileStatus, setProfileStatus] = useState("");
+  const profile = useMemo(() => profiles.find(p => p.id===profileId) ?? null, [profiles, profileId]);
+  const [pilots, setPilots] = useState<PilotProfile[]>(loadPilots);
+  const [pilotId, setPilotId] = useState<string>(() => { try { return localStorage.getItem(SELECTED_PILOT_STORAGE_KEY) ?? ''; } catch { return ''; } });
+  const [pilotName, setPilotName] = useState<string>(() => loadPilots().find(p => p.id===pilotId)?.name ?? '');
+  const [minimumsDraft, setMinimumsDraft] = useState<MinimumsDraft>(() => { const p = loadPilots().find(p => p.id===pilotId); return p ? minimumsToDraft(p.minimums, units) : EMPTY_MINIMUMS_DRAFT; });
+  const [pilotStatus, setPilotStatus] = useState("");
+  const [compareText, setCompareText] = useState("");
+  const [compareEntries, setCompareEntries] = useState<ComparisonEntry[]>([]);
+  const [compareSort, setCompareSort] = useState<{ key: ComparisonSortKey; dir: 1 | -1 }>({ key: 'margin', dir: 1 });
+  const [briefingOpen, setBriefingOpen] = useState(false);
+  const [shareStatus, setShareStatus] = useState("");
+  const [history, setHistory] = useState<HistoryEntry[]>(loadHistory);
+  const [historyFilter, setHistoryFilter] = useState({ station: '', from: '', to: '' });
+  const pilot = useMemo(() => pilots.find(p => p.id===pilotId) ?? null, [pilots, pilotId]);
+  const [runwayId, setRunwayId] = useState<string>("");
+  const [maxXwind, setMaxXwind] = useState<string>("");
+  const [dbRunway, setDbRunway] = useState<RunwayIdent|null>(null);
+  const [applyWind, setApplyWind] = useState(true);
+  const [surfaceCond, setSurfaceCond] = useState<SurfaceCondition>("paved-dry");
+  const [applySurface, setApplySurface] = useState(true);
+  const [slopePct, setSlopePct] = useState<string>(""); // %, positive uphill
+  const [applySlope, setApplySlope] = useState(true);
+  const [refWeight, setRefWeight] = useState<string>(""); // lb
+  const [applyWeight, setApplyWeight] = useState(true);
+  const [landRunwayId, setLandRunwayId] = useState<string>("");
+  const [landDbRunway, setLandDbRunway] = useState<RunwayIdent|null>(null);
+  const [landRunwayLen, setLandRunwayLen] = useState<string>("");
+  const [landBaseline, setLandBaseline] = useState<string>("");
+  const [landSurfaceCond, setLandSurfaceCond] = useState<SurfaceCondition>("paved-dry");
+  const [landSlopePct, setLandSlopePct] = useState<string>(""); // %, positive uphill in the landing direction
+  const [applyLandWind, setApplyLandWind] = useState(true);
+  const [applyLandSurface, setApplyLandSurface] = useState(true);
+  const [applyLandSlope, setApplyLandSlope] = useState(true);
+  const [bookRoc, setBookRoc] = useState<string>(""); // fpm, sea-level/std day
+  const [climbIas, setClimbIas] = useState<string>(""); // KIAS
+  const [dpGradient, setDpGradient] = useState<string>(""); // ft/NM
+  const [obstacleHeight, setObstacleHeight] = useState<string>(""); // above DER
+  const [obstacleDist, setObstacleDist] = useState<string>(""); // NM from DER
+  const [safetyMarginPct, setSafetyMarginPct] = useState<string>("0");
   const [showGraph, setShowGraph] = useState(false);
 
   // Derived values & validation
   const fieldElevValid = useMemo(() => { const s = (fieldElevation ?? "").trim(); if (s === '') return false; const v = Number(s); return isFinite(v); }, [fieldElevation]);
-  const fieldElevFt = useMemo(()=>{ const v=Number(fieldElevation); return isFinite(v)? v : 0; },[fieldElevation]);
-  const parsedTempC = useMemo(()=>{ const s = (tempVal ?? '').trim(); if (s==='') return NaN; const v = Number(s); if(!isFinite(v)) return NaN; return tempUnit==='C'?v:fToC(v); },[tempVal,tempUnit]);
-  const parsedPA    = useMemo(()=>{ const s = (paVal ?? '').trim(); if (s==='') return NaN; const v=Number(s); return isFinite(v)? v : NaN; },[paVal]);
-  const { tempC: tempExactC, dewC: dewExactC } = useMemo(()=>parseMetarPrecise(metarRaw),[metarRaw]);
+  const fieldElevFt = useMemo(()=>{ const v=Number(fieldElevation); return isFinite(v)? toFt(v, units.altitude) : 0; },[fieldElevation, units.altitude]);
+  const inputTempC = useMemo(()=>{ const s = (tempVal ?? '').trim(); if (s==='') return NaN; const v = Number(s); if(!isFinite(v)) return NaN; return toC(v, units.temperature); },[tempVal, units.temperature]);
+  const parsedPA    = useMemo(()=>{ const s = (paVal ?? '').trim(); if (s==='') return NaN; const v=Number(s); return isFinite(v)? toFt(v, units.altitude) : NaN; },[paVal, units.altitude]);
+  const altimeterValid = altimeterVal.trim()==='' || altimeterInHg!=null;
+  const metar = useMemo(()=>decodeMetar(metarRaw),[metarRaw]);
+  const [clock, setClock] = useState(() => Date.now());
+  useEffect(() => { const t = setInterval(() => setClock(Date.now()), 60e3); return () => clearInterval(t); }, []);
+  const metarAgeMin = useMemo(() => metar.time ? metarAgeMinutes(metar.time.value, new Date(clock)) : null, [metar, clock]);
+  const airport = useMemo(()=>lookupAirport(airportDb, icao),[airportDb, icao]);
+  const runway  = useMemo(()=> (dbRunway && dbRunway.ident===runwayId) ? dbRunway : parseRunwayIdent(runwayId),[runwayId, dbRunway]);
+
+  /************ TAF & departure time ************/
+  const taf = useMemo(() => tafRaw.trim() ? decodeTaf(tafRaw) : null, [tafRaw]);
+  // Temperature anchors: the current observation (or the entered OAT at the time of the TAF) plus the forecast extremes.
+  const tempAnchors = useMemo(() => {
+    if (!taf) return [];
+    const obsMs = metar.time ? resolveDayTimeMs(metar.time.value.day, metar.time.value.hour, metar.time.value.minute, clock) : null;
+    const now = metar.tempC && obsMs!=null ? [{ atMs: obsMs, tempC: metar.tempC.value }] : isFinite(inputTempC) ? [{ atMs: taf.issuedMs ?? taf.validFromMs, tempC: inputTempC }] : [];
+    return [...now, ...taf.temps.map(t => ({ atMs: t.atMs, tempC: t.tempC }))];
+  }, [taf, metar, inputTempC, clock]);
+  const forecastAt = useCallback((tMs: number) => {
+    if (!taf) return null;
+    const { prevailing, temporary } = tafConditionsAt(taf, tMs);
+    return { atMs: tMs, prevailing, temporary, tempC: interpolateTempC(tempAnchors, tMs), wind: leastFavourableWind([prevailing.wind, ...temporary.map(g => g.wind)], runway?.headingDeg ?? null) };
+  }, [taf, tempAnchors, runway]);
+  const forecast = useMemo(() => departureMs!=null ? forecastAt(departureMs) : null, [departureMs, forecastAt]);
+  // A departure time outside the current TAF (or with no TAF) falls back to the METAR.
+  useEffect(() => { if (departureMs!=null && (!taf || departureMs < taf.validFromMs || departureMs > taf.validToMs)) setDepartureMs(null); }, [taf, departureMs]);
 
-  // Auto-recompute PA when field elevation changes and we have altimeter
-  useEffect(() => { if (altimeterInHg != null) { const pa = pressureAltitudeFromAltimeterFt(fieldElevFt, altimeterInHg); setPaVal(String(Math.round(pa))); } }, [fieldElevFt, altimeterInHg]);
+  // With a departure time selected, forecast OAT and wind replace the observed values everywhere downstream; PA stays at the current altimeter setting.
+  const parsedTempC = forecast?.tempC ?? inputTempC;
+  const tempExactC = forecast?.tempC ?? metar.tempC?.value ?? null;
+  const dewExactC = metar.dewC ? (tempExactC!=null ? Math.min(metar.dewC.value, tempExactC) : metar.dewC.value) : null;
+  const windObs = forecast ? forecast.wind : metar.wind?.value ?? null;
+  const windComp = useMemo(()=> (windObs && runway) ? windComponents(windObs, runway.headingDeg) : null, [windObs, runway]);
+  const landRunway = useMemo(()=> (landDbRunway && landDbRunway.ident===landRunwayId) ? landDbRunway : parseRunwayIdent(landRunwayId),[landRunwayId, landDbRunway]);
+  const landWindComp = useMemo(()=> (windObs && landRunway) ? windComponents(windObs, landRunway.headingDeg) : null, [windObs, landRunway]);
+
+  // Auto-recompute PA when field elevation changes and we have altimeter (fetched or typed)
+  useEffect(() => { if (altimeterInHg != null) { const pa = pressureAltitudeFromAltimeterFt(fieldElevFt, altimeterInHg); setPaVal(String(Math.round(fromFt(pa, units.altitude)))); } }, [fieldElevFt, altimeterInHg, units.altitude]);
 
   const densityAltRotFt = useMemo(() => densityAltitudeRuleOfThumbFt(parsedPA, parsedTempC, fieldElevFt), [parsedPA, parsedTempC, fieldElevFt]);
   const densityAltPreciseFt = useMemo(() => (!isFinite(parsedPA) || tempExactC==null) ? NaN : preciseDensityAltitudeFt(parsedPA, tempExactC, dewExactC), [parsedPA, tempExactC, dewExactC]);
-  const daForKoch = useMemo(() => { const v = (kochMode==='precise' ? densityAltPreciseFt : densityAltRotFt); return Number.isFinite(v) ? v : 0; }, [kochMode, densityAltPreciseFt, densityAltRotFt]);
-  const toPct  = useMemo(() => { const mul = (kochMode==='legacy' ? (1 + 0.125*(daForKoch/1000)) : (1 + 0.15*(daForKoch/1000))); return Math.max(0, (mul - 1) * 100); }, [daForKoch, kochMode]);
-  const rocPct = useMemo(() => (kochMode==='legacy' ? (0.096*(daForKoch/1000)*100) : Math.max(0, (1 - Math.max(0, 1 - 0.075*(daForKoch/1000))) * 100)), [daForKoch, kochMode]);
+  // POH mode still reports a Koch estimate alongside the table, driven by Precise DA.
+  const kochModel: KochModel = kochMode==='poh' ? 'precise' : kochMode;
+  const daForKoch = useMemo(() => { const v = (kochModel==='precise' ? densityAltPreciseFt : densityAltRotFt); return Number.isFinite(v) ? v : 0; }, [kochModel, densityAltPreciseFt, densityAltRotFt]);
+  const toPct  = useMemo(() => Math.max(0, (kochTakeoffFactor(daForKoch, kochModel) - 1) * 100), [daForKoch, kochModel]);
+  const rocPct = useMemo(() => Math.max(0, kochClimbLossPct(daForKoch, kochModel)), [daForKoch, kochModel]);
+
+  const { table: pohTable, error: pohError } = useMemo(() => parsePohTable(pohText), [pohText]);
+  useEffect(() => { try { localStorage.setItem(POH_TABLE_STORAGE_KEY, pohText); } catch { /* storage unavailable */ } }, [pohText]);
+  const takeoffWeightLb = useMemo(() => { const s = takeoffWeight.trim(); const v = Number(s); return s!=='' && isFinite(v) ? v : null; }, [takeoffWeight]);
+  const pohResult = useMemo(() => (pohTable && isFinite(parsedPA) && isFinite(parsedTempC)) ? pohLookup(pohTable, parsedPA, parsedTempC, takeoffWeightLb, fmt) : null, [pohTable, parsedPA, parsedTempC, takeoffWeightLb, fmt]);
+  const pohIsaResult = useMemo(() => pohTable ? pohLookup(pohTable, 0, 15, takeoffWeightLb) : null, [pohTable, takeoffWeightLb]);
+  const pohDistFt = (r: PohLookup | null) => !r ? NaN : (pohBasis==='over50' && r.over50Ft!=null ? r.over50Ft : r.groundRollFt);
+
+  /************ Takeoff distance ************/
+  const takeoff = useMemo(() => {
+    const rw = Number(runwayLen), base = Number(baselineTO), m = Number(safetyMarginPct), refW = Number(refWeight);
+    const rwFt = isFinite(rw) ? toFt(rw, units.distance) : 0;
+    const baseFt = isFinite(base) ? toFt(base, units.distance) : 0;
+    const usePoh = kochMode==='poh' && !!pohTable;
+    const input: TakeoffInput = {
+      paFt: parsedPA, tempC: parsedTempC, dewC: dewExactC, fieldElevFt, runwayFt: rwFt, model: kochModel, baselineFt: baseFt,
+      poh: usePoh ? { table: pohTable!, basis: pohBasis } : null, wind: windObs, runwayHeadingDeg: runway?.headingDeg ?? null,
+      surface: surfaceCond, slopePct: slopePct.trim()!=='' ? Number(slopePct) : null, weightLb: takeoffWeightLb, refWeightLb: refWeight.trim()!=='' && isFinite(refW) ? refW : null,
+      safetyMarginPct: isFinite(m) ? Math.max(0, m) : 0, apply: { wind: applyWind, surface: applySurface, slope: applySlope, weight: applyWeight },
+    };
+    const r = calculateTakeoff(input, fmt);
+    // Only report results when the runway, a baseline or table, PA and OAT are all there.
+    const hasInputs = rwFt > 0 && r.uncorrectedFt > 0;
+
+    // POH mode compares the table against Koch applied to the baseline, or to the table's own sea-level ISA value (which already includes weight) when no baseline is entered.
+    const pohIsaFt = pohDistFt(pohIsaResult);
+    const kochBaseFt = baseFt > 0 ? baseFt : (usePoh && pohIsaFt > 0 ? pohIsaFt : 0);
+    const kochRequiredFt = usePoh ? calculateTakeoff({ ...input, poh: null, baselineFt: kochBaseFt, apply: { ...input.apply, weight: applyWeight && !(pohTable!.hasWeights && baseFt <= 0) } }, fmt).requiredFt : r.requiredFt;
+    const multiplier = usePoh ? (pohIsaFt > 0 ? r.uncorrectedFt / pohIsaFt : 1) : r.kochFactor;
+    const isaEquivalentFt = rwFt > 0 && multiplier > 0 ? rwFt / (multiplier * r.correctionFactor) : 0;
+
+    const wc = r.windComponents;
+    const xwLimit = toKt(Number(maxXwind), units.wind);
+    const xwExceeded = !!wc && maxXwind.trim() !== '' && isFinite(xwLimit) && wc.gustCrossKt > xwLimit;
+    const tailKt = wc ? Math.max(0, -wc.headKt, -wc.gustHeadKt) : 0;
+    const windFactor = r.corrections.find(c => c.key==='wind')!.factor;
+    const empty = { requiredFt: 0, requiredWithMarginFt: 0, marginFt: 0, ok: true, pctUsed: 0 }; // default OK when empty
+    return { ...r, ...(hasInputs ? {} : empty), input, rwFt, baseFt, usePoh, kochBaseFt, hasInputs, kochRequiredFt, isaEquivalentFt, windFactor, xwLimit, xwExceeded, tailKt,
+      marginPct: input.safetyMarginPct!, overByFt: hasInputs ? Math.max(0, -r.marginFt) : 0 };
+  }, [runwayLen, baselineTO, safetyMarginPct, units, fmt, kochMode, kochModel, pohTable, pohIsaResult, pohBasis, parsedPA, parsedTempC, dewExactC, fieldElevFt, windObs, runway, maxXwind, slopePct, surfaceCond, refWeight, takeoffWeightLb, applyWind, applySurface, applySlope, applyWeight]);
+
+  /************ Limiting conditions ************/
+  // calculateTakeoff solves for the hottest OAT / highest PA whose required distance plus margin still fits; here they become headroom against the current values.
+  const limits = useMemo(() => {
+    if (!takeoff.hasInputs) return null;
+    const { maxOatC: maxOat, maxPaFt: maxPa } = takeoff.limits;
+    const maxDaFt = isFinite(maxOat.value) ? densityAltitudeFt(kochModel, parsedPA, maxOat.value, fieldElevFt, dewExactC!=null ? Math.min(dewExactC, maxOat.value) : null) : NaN;
+    return { maxOat, maxPa, maxDaFt, oatHeadroomC: maxOat.value - parsedTempC, paHeadroomFt: maxPa.value - parsedPA, daHeadroomFt: maxDaFt - takeoff.densityAltitudeFt.model };
+  }, [takeoff, kochModel, parsedPA, parsedTempC, fieldElevFt, dewExactC]);
+
+  /************ Forecast timeline ************/
+  // The takeoff calculation rerun at each step with the forecast OAT and wind; PA and every other input stay at their current values.
+  const forecastTimeline = useMemo((): ForecastPoint[] => {
+    if (!taf || !isFinite(parsedPA)) return [];
+    const pts: ForecastPoint[] = [];
+    for (let t = taf.validFromMs; t <= taf.validToMs; t += FORECAST_STEP_MS){
+      const f = forecastAt(t)!; const r = f.tempC!=null ? calculateTakeoff({ ...takeoff.input, tempC: f.tempC, wind: f.wind }) : null;
+      const da = r ? r.densityAltitudeFt.model : NaN; const has = takeoff.hasInputs && r!=null && isFinite(r.requiredWithMarginFt);
+      pts.push({ atMs: t, tempC: f.tempC, daFt: isFinite(da) ? Math.round(da) : null, requiredFt: has ? Math.round(r!.requiredWithMarginFt) : null, marginFt: has ? Math.round(r!.marginFt) : null, temporary: f.temporary.length > 0 });
+    }
+    return pts;
+  }, [taf, forecastAt, parsedPA, takeoff]);
+
+  /************ Climb gradient ************/
+  const climb = useMemo(() => {
+    const roc = Number(bookRoc), ias = Number(climbIas); if (!(roc > 0) || !(ias > 0)) return null;
+    // Steady headwind only; a tailwind uses the stronger of steady and gust.
+    const headKt = windComp ? (windComp.headKt >= 0 ? windComp.headKt : Math.min(windComp.headKt, windComp.gustHeadKt)) : 0;
+    const rocLoss = Math.max(0, rocLossPct(daForKoch)); const res = climbGradient(roc, rocLoss, ias, daForKoch, headKt);
+    const dp = Number(dpGradient); const obsH = toFt(Number(obstacleHeight), units.altitude), obsD = Number(obstacleDist);
+    const obstacle = (obsH > 0 && obsD > 0) ? { heightFt: obsH, distNm: obsD } : null;
+    const required = [dp > 0 ? dp : null, obstacle ? obstacle.heightFt / obstacle.distNm : null].filter((v): v is number => v!=null);
+    const requiredFtPerNm = required.length ? Math.max(...required) : null;
+    // Height at the departure end: the required distance ends at 50 ft (over-50 ft basis) or at liftoff (ground roll), then the climb gradient; 35 ft (TERPS) without takeoff data.
+    // A Koch baseline is taken as an over-50 ft figure, as profiles supply it when they have one.
+    const over50 = !takeoff.usePoh || (pohBasis==='over50' && pohTable?.over50Ft!=null);
+    const heightBasis = !takeoff.hasInputs ? 'TERPS 35 ft, no takeoff data' : takeoff.usePoh ? (over50 ? '50 ft at the end of the POH over-50 ft distance' : 'liftoff at the end of the POH ground roll') : '50 ft at the end of the takeoff distance; baseline taken as over 50 ft';
+    const heightAtDerFt = !takeoff.hasInputs ? 35 : takeoff.requiredFt <= takeoff.rwFt ? (over50 ? 50 : 0) + res.gradientFtPerNm * (takeoff.rwFt - takeoff.requiredFt) / 6076.12 : 0;
+    return { ...res, rocLoss, headKt, obstacle, requiredFtPerNm, heightAtDerFt, heightBasis, ok: requiredFtPerNm==null || res.gradientFtPerNm >= requiredFtPerNm };
+  }, [bookRoc, climbIas, windComp, daForKoch, dpGradient, obstacleHeight, obstacleDist, units.altitude, takeoff, pohBasis, pohTable]);
+
+  /************ Go / no-go ************/
+  // The draft is assessed live so edits show their effect before the pilot saves them.
+  const goNoGo = useMemo(() => {
+    const da = kochModel==='precise' ? densityAltPreciseFt : densityAltRotFt;
+    return assessMinimums(draftToMinimums(minimumsDraft, units), {
+      runwayFt: takeoff.hasInputs ? takeoff.rwFt : null, requiredFt: takeoff.hasInputs ? takeoff.requiredWithMarginFt : null,
+      daFt: Number.isFinite(da) ? da : null, crosswindKt: windComp ? windComp.gustCrossKt : null, tailwindKt: windComp ? takeoff.tailKt : null,
+      category: metarRaw.trim() ? flightCategory(metar) : null, metarAgeMin,
+    }, fmt);
+  }, [minimumsDraft, units, fmt, kochModel, densityAltPreciseFt, densityAltRotFt, takeoff, windComp, metarRaw, metar, metarAgeMin]);
+
+  /************ Multi-airport comparison ************/
+  // Every station uses the main calculator's model, baseline or POH table, correction switches and safety margin; wet/dry carries over from the main surface.
+  const compareAircraft = useMemo((): ComparisonAircraft => ({
+    model: kochModel, baselineFt: takeoff.baseFt, poh: kochMode==='poh' && pohTable ? { table: pohTable, basis: pohBasis } : null,
+    surface: applySurface ? surfaceCond : undefined, weightLb: takeoffWeightLb, refWeightLb: applyWeight && Number(refWeight) > 0 ? Number(refWeight) : null,
+    safetyMarginPct: takeoff.marginPct, applyWind, applySlope,
+  }), [kochModel, takeoff.baseFt, takeoff.marginPct, kochMode, pohTable, pohBasis, applySurface, surfaceCond, takeoffWeightLb, applyWeight, refWeight, applyWind, applySlope]);
+  const comparison = useMemo(() => {
+    const len = (v: string, dim: 'altitude'|'distance') => { const n = Number(v); return v.trim()!=='' && isFinite(n) ? toFt(n, units[dim]) : null; };
+    const rows = compareEntries.map(e => ({ entry: e, row: compareStation(e.station, e.raw, lookupAirport(airportDb, e.station), e.runwayKey || null, compareAircraft,
+      { elevationFt: len(e.elev, 'altitude'), runwayFt: len(e.runwayLen, 'distance'), runway: parseRunwayIdent(e.runwayId) }) }));
+    const col = COMPARISON_COLUMNS.find(c => c.key===compareSort.key)!;
+    // Rows without a value sort last in either direction.
+    return rows.sort((a, b) => {
+      const x = col.value(a.row), y = col.value(b.row);
+      if (x==null || y==null) return x==null ? (y==null ? 0 : 1) : -1;
+      return (typeof x==='string' ? x.localeCompare(String(y)) : x - (y as number)) * compareSort.dir;
+    });
+  }, [compareEntries, airportDb, compareAircraft, compareSort, units]);
 
   /************ Fetch METAR ************/
-  const doFetchMetar = async (): Promise<{raw:string; usedId:string}|null> => {
-    const base = icao.trim().toUpperCase();
-    if (!/^[A-Z0-9]{3,4}$/.test(base)) { setMetarStatus("Invalid station ID (use ICAO or FAA LID e.g., KSMO or F70)"); return null; }
-    const candidates = Array.from(new Set([
-      (!base.startsWith('K') && base.length === 3 ? `K${base}` : null),
-      base,
-      (!base.startsWith('K') && base.length === 4 ? `K${base}` : null)
-    ].filter(Boolean)));
-    setMetarStatus(`Fetching METAR… (${candidates.join(' → ')})`);
-    const endpointsFor = (id:string) => [
-      `https://aviationweather.gov/api/data/metar?ids=${id}&format=raw&hours=1`,
-      `https://aviationweather.gov/adds/dataserver_current/httpparam?dataSource=metars&requestType=retrieve&format=xml&hoursBeforeNow=2&stationString=${id}`
-    ];
+  const fetchMetarFor = async (station: string, setStatus: (s: string) => void): Promise<{raw:string; usedId:string}|null> => {
+    const base = station.trim().toUpperCase();
+    if (!/^[A-Z0-9]{3,4}$/.test(base)) { setStatus("Invalid station ID (use ICAO or FAA LID e.g., KSMO or F70)"); return null; }
+    // Known stations report under their ICAO code; only unknown 3-character IDs fall back to guessing a US "K" prefix.
+    const known = lookupAirport(airportDb, base);
+    const candidates = known ? [known.icao ?? known.ident] : Array.from(new Set([base, ...(base.length === 3 && !base.startsWith('K') ? [`K${base}`] : [])]));
+    const provider = makeWeatherProvider(weatherCfg, metarFile);
+    setStatus(`Fetching METAR from ${provider.label}… (${candidates.join(' → ')})`);
+    const errors: string[] = [];
     for (const id of candidates){
-      for (const ep of endpointsFor(id)){
-        try {
-          const url = wrap(ep); const res = await fetch(url); if (!res.ok) throw new Error(String(res.status)); const txt = await res.text(); if (/<!DOCTYPE/i.test(txt)) continue; // ignore HTML
-          const m = txt.match(/<raw_text>([^<]+)<\/raw_text>/i); let raw = m ? m[1].trim() : '';
-          if (!raw) raw = (txt || "").split(/\r?\n+/).map(s => s.trim()).filter(Boolean)[0] || '';
-          if (raw && /(METAR|SPECI|^\w{3,4}\s\d{6}Z)/.test(raw)) return { raw, usedId: id };
-        } catch (e) { /* try next */ }
-      }
+      try {
+        const { raw, cachedAgeMin } = await fetchWeatherCached(provider, 'metar', id, weatherCfg.cacheMin);
+        setStatus(`Fetched ${id} from ${provider.label}${cachedAgeMin!=null ? ` (cached ${Math.round(cachedAgeMin)} min ago)` : ''}`);
+        return { raw, usedId: id };
+      } catch (e) { errors.push(`${id}: ${errorMessage(e)}`); }
     }
-    setMetarStatus("Fetch failed (try ICAO like KF70). Paste METAR manually if needed.");
+    setStatus(`Fetch failed — ${errors.join(' | ')}. Paste METAR manually if needed.`);
     return null;
   };
+  const doFetchMetar = () => fetchMetarFor(icao, setMetarStatus);
+  const fetchTaf = async (id: string) => {
+    const provider = makeWeatherProvider(weatherCfg, metarFile);
+    setTafStatus(`Fetching TAF for ${id} from ${provider.label}…`);
+    try {
+      const { raw, cachedAgeMin } = await fetchWeatherCached(provider, 'taf', id, weatherCfg.cacheMin);
+      setTafRaw(raw); setTafStatus(`Fetched TAF ${id} from ${provider.label}${cachedAgeMin!=null ? ` (cached ${Math.round(cachedAgeMin)} min ago)` : ''}`);
+    } catch (e) { setTafStatus(`No TAF for ${id} — ${errorMessage(e)}. Paste one manually if available.`); }
+  };
   const fetchMetarAndCompute = async () => {
-    const res = await doFetchMetar(); if (!res) return; const { raw, usedId } = res; setMetarRaw(raw); setMetarStatus(`Fetched ${usedId}`);
-    const { altInHg, tempC } = parseMetar(raw);
-    if (altInHg != null) { setAltimeterInHg(altInHg); const pa = pressureAltitudeFromAltimeterFt(fieldElevFt, altInHg); setPaVal(String(Math.round(pa))); }
-    if (tempC != null) setTempVal(String(tempUnit==='C' ? tempC : round(cToF(tempC),1)));
+    const res = await doFetchMetar(); if (!res) return; const { raw, usedId } = res; applyMetar(raw, fieldElevFt);
+    await fetchTaf(usedId);
+  };
+  const applyMetar = (raw: string, elevFt: number) => {
+    setMetarRaw(raw);
+    const decoded = decodeMetar(raw); const altInHg = decoded.altimeter?.value.inHg ?? null; const tempC = decoded.tempC ? round(decoded.tempC.value,1) : null;
+    if (altInHg != null) {
+      setAltimeterInHg(altInHg); setAltimeterVal(String(round(fromInHg(altInHg, units.pressure), PRESSURE_DECIMALS[units.pressure])));
+      const pa = pressureAltitudeFromAltimeterFt(elevFt, altInHg); setPaVal(String(Math.round(fromFt(pa, units.altitude))));
+    }
+    if (tempC != null) setTempVal(String(round(fromC(tempC, units.temperature),1)));
+  };
+  // A typed altimeter setting or QNH drives PA exactly like a fetched one.
+  const onAltimeterChange = (text: string) => { setAltimeterVal(text); setAltimeterInHg(parseAltimeterInHg(text, units.pressure)); };
+  // Typed values are re-expressed in the new units so the calculation does not change.
+  const onUnitsChange = (next: UnitPrefs) => {
+    const conv = (dim: UnitDim) => (text: string) => convertInput(text, dim, units, next);
+    setFieldElevation(conv('altitude')); setPaVal(conv('altitude')); setObstacleHeight(conv('altitude'));
+    setTempVal(conv('temperature')); setAltimeterVal(conv('pressure')); setMaxXwind(conv('wind'));
+    setRunwayLen(conv('distance')); setBaselineTO(conv('distance')); setLandRunwayLen(conv('distance')); setLandBaseline(conv('distance'));
+    setProfileDraft(d => convertDraft(d, PROFILE_DRAFT_UNITS, units, next)); setMinimumsDraft(d => convertDraft(d, MINIMUMS_DRAFT_UNITS, units, next));
+    setCompareEntries(list => list.map(e => ({ ...e, elev: conv('altitude')(e.elev), runwayLen: conv('distance')(e.runwayLen) })));
+    setUnits(next);
+  };
+  /************ Aircraft profiles ************/
+  const applyProfile = (p: AircraftProfile) => {
+    const d = profileToDraft(p, units);
+    setBaselineTO(p.over50Ft!=null ? d.over50Ft : d.groundRollFt);
+    setPohBasis(p.over50Ft!=null ? 'over50' : 'groundRoll');
+    setMaxXwind(d.maxXwindKt);
+    setRefWeight(d.refWeightLb);
+    setClimbIas(d.vyKias);
+    setLandBaseline(d.landingFt);
+    setKochMode(p.kochMode);
+  };
+  useEffect(() => { if (profile) applyProfile(profile); }, []); // restore the last selected aircraft on load
+  useEffect(() => { saveProfiles(profiles); }, [profiles]);
+  useEffect(() => { try { localStorage.setItem(SELECTED_PROFILE_STORAGE_KEY, profileId); } catch { /* storage unavailable */ } }, [profileId]);
+  const onSelectProfile = (id:string) => {
+    setProfileId(id); setProfileStatus('');
+    const p = profiles.find(p => p.id===id); if (!p){ setProfileDraft(EMPTY_PROFILE_DRAFT); return; }
+    setProfileDraft(profileToDraft(p, units)); applyProfile(p);
+  };
+  const onSaveProfile = () => {
+    const p = normalizeProfile({ ...convertDraft(profileDraft, PROFILE_DRAFT_UNITS, units, DEFAULT_UNIT_PREFS), id: profileId || undefined }); if (!p){ setProfileStatus('Enter a profile name.'); return; }
+    setProfiles(list => list.some(x => x.id===p.id) ? list.map(x => x.id===p.id ? p : x) : [...list, p]);
+    setProfileId(p.id); applyProfile(p); setProfileStatus(`Saved “${p.name}”.`);
+  };
+  const onDeleteProfile = () => {
+    if (!profile) return;
+    setProfiles(list => list.filter(x => x.id!==profile.id)); setProfileId(''); setProfileDraft(EMPTY_PROFILE_DRAFT); setProfileStatus(`Deleted “${profile.name}”.`);
+  };
+  const onImportProfiles = async (file: File | undefined) => {
+    if (!file) return;
+    const imported = parseProfilesJson(await file.text()); if (!imported){ setProfileStatus('Not a valid aircraft profile file.'); return; }
+    setProfiles(list => { const byId = new Map(list.map(p => [p.id, p])); for (const p of imported) byId.set(p.id, p); return Array.from(byId.values()); });
+    setProfileStatus(`Imported ${imported.length} profile${imported.length===1 ? '' : 's'}.`);
   };
-  const onTempUnitChange = (next:'C'|'F') => { const v = Number(tempVal); if (isFinite(v)) { if (tempUnit==='C' && next==='F') setTempVal(String(round(cToF(v),1))); if (tempUnit==='F' && next==='C') setTempVal(String(round(fToC(v),1))); } setTempUnit(next); };
+
+  /************ Pilot minimums ************/
+  useEffect(() => { savePilots(pilots); }, [pilots]);
+  useEffect(() => { try { localStorage.setItem(SELECTED_PILOT_STORAGE_KEY, pilotId); } catch { /* storage unavailable */ } }, [pilotId]);
+  const onSelectPilot = (id:string) => {
+    setPilotId(id); setPilotStatus('');
+    const p = pilots.find(p => p.id===id);
+    setPilotName(p?.name ?? ''); setMinimumsDraft(p ? minimumsToDraft(p.minimums, units) : EMPTY_MINIMUMS_DRAFT);
+  };
+  const onSavePilot = () => {
+    const p = normalizePilot({ id: pilotId || undefined, name: pilotName, minimums: draftToMinimums(minimumsDraft, units) }); if (!p){ setPilotStatus('Enter a pilot name.'); return; }
+    setPilots(list => list.some(x => x.id===p.id) ? list.map(x => x.id===p.id ? p : x) : [...list, p]);
+    setPilotId(p.id); setMinimumsDraft(minimumsToDraft(p.minimums, units)); setPilotStatus(`Saved “${p.name}”.`);
+  };
+  const onDeletePilot = () => {
+    if (!pilot) return;
+    setPilots(list => list.filter(x => x.id!==pilot.id)); setPilotId(''); setPilotName(''); setMinimumsDraft(EMPTY_MINIMUMS_DRAFT); setPilotStatus(`Deleted “${pilot.name}”.`);
+  };
+
+  /************ Multi-airport comparison ************/
+  const updateCompareEntry = (station: string, patch: Partial<ComparisonEntry>) => setCompareEntries(list => list.map(e => e.station===station ? { ...e, ...patch } : e));
+  const onSetCompareStations = () => {
+    const ids = parseStationList(compareText);
+    setCompareEntries(list => ids.map(station => list.find(e => e.station===station) ?? { station, raw: '', status: '', runwayKey: '', elev: '', runwayLen: '', runwayId: '' }));
+  };
+  const fetchCompareEntry = async (station: string) => {
+    const res = await fetchMetarFor(station, status => updateCompareEntry(station, { status }));
+    if (res) updateCompareEntry(station, { raw: res.raw });
+  };
+  const fetchCompareAll = async () => { for (const e of compareEntries) await fetchCompareEntry(e.station); };
+  const onSortComparison = (key: ComparisonSortKey) => setCompareSort(s => ({ key, dir: s.key===key ? (-s.dir as 1 | -1) : 1 }));
+  // Loads a row into the single-airport view; a TAF from another station would no longer apply, so it is cleared.
+  const onOpenComparison = (r: StationComparison) => {
+    onStationChange(r.station);
+    if (r.elevationFt!=null && r.elevationFt!==r.airport?.elevationFt) setFieldElevation(String(Math.round(fromFt(r.elevationFt, units.altitude))));
+    if (r.metar) applyMetar(r.metar.raw, r.elevationFt ?? fieldElevFt);
+    if (r.manualRunway){ setDbRunway(null); setRunwayId(r.manualRunway.ident?.ident ?? ''); setRunwayLen(String(Math.round(fromFt(r.manualRunway.lengthFt, units.distance)))); }
+    else if (r.runway) onPickRunway(`${r.runway.index}:${r.runway.end}`, r.airport);
+    setTafRaw(''); setTafStatus(''); setDepartureMs(null);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  /************ Permalink ************/
+  // Defaults are left out to keep links short; the POH table travels with the link only in POH mode.
+  const flag = (on: boolean) => on ? '' : '0';
+  const unlessDefault = (v: string, d: string) => v===d ? '' : v;
+  const shareState: ShareState = {
+    s: icao, m: metarRaw, taf: tafRaw, dep: departureMs!=null ? String(departureMs) : '',
+    ua: unlessDefault(units.altitude, DEFAULT_UNIT_PREFS.altitude), ud: unlessDefault(units.distance, DEFAULT_UNIT_PREFS.distance), up: unlessDefault(units.pressure, DEFAULT_UNIT_PREFS.pressure),
+    ut: unlessDefault(units.temperature, DEFAULT_UNIT_PREFS.temperature), uw: unlessDefault(units.wind, DEFAULT_UNIT_PREFS.wind),
+    elev: fieldElevation, t: tempVal, pa: paVal, alt: altimeterVal,
+    rl: runwayLen, rwy: runwayId, b: baselineTO, mode: unlessDefault(kochMode, 'precise'),
+    poh: kochMode==='poh' ? pohText : '', basis: unlessDefault(pohBasis, 'over50'),
+    w: takeoffWeight, rw: refWeight, xw: maxXwind, sfc: unlessDefault(surfaceCond, 'paved-dry'), slope: slopePct, margin: unlessDefault(safetyMarginPct, '0'),
+    aw: flag(applyWind), as: flag(applySurface), asl: flag(applySlope), awt: flag(applyWeight),
+    lrwy: landRunwayId, ll: landRunwayLen, lb: landBaseline,
+    lsfc: unlessDefault(landSurfaceCond, 'paved-dry'), lslope: landSlopePct,
+    law: flag(applyLandWind), las: flag(applyLandSurface), lasl: flag(applyLandSlope),
+    roc: bookRoc, ias: climbIas, dpg: dpGradient, obh: obstacleHeight, obd: obstacleDist,
+  };
+  const shareSearch = shareQuery(shareState);
+  const permalink = typeof window==='undefined' ? '' : `${window.location.origin}${window.location.pathname}${shareSearch ? `?${shareSearch}` : ''}`;
+  // Every field the state omits goes back to its default; values are converted from the link's units to the viewer's preferences.
+  const applyShareState = (q: ShareState) => {
+    const linkUnits = normalizeUnitPrefs({ altitude: q.ua, distance: q.ud, pressure: q.up, temperature: q.ut, wind: q.uw });
+    const conv = (v: string | undefined, dim: UnitDim) => convertInput(v ?? '', dim, linkUnits, units);
+    const surface = (v: string | undefined): SurfaceCondition => v && v in SURFACE_FACTORS ? v as SurfaceCondition : 'paved-dry';
+    const dbEnd = (id: string | undefined) => { const ap = lookupAirport(airportDb, q.s ?? ''); return (ap && id ? runwayChoices(ap).find(c => c.ident.ident===id)?.ident : null) ?? null; };
+    const dep = Number(q.dep);
+    setIcao(q.s ?? ''); setMetarRaw(q.m ?? ''); setTafRaw(q.taf ?? ''); setDepartureMs(q.dep && isFinite(dep) ? dep : null);
+    setAltimeterVal(conv(q.alt, 'pressure')); setAltimeterInHg(parseAltimeterInHg(q.alt ?? '', linkUnits.pressure));
+    setFieldElevation(conv(q.elev, 'altitude')); setTempVal(conv(q.t, 'temperature')); setPaVal(conv(q.pa, 'altitude'));
+    setRunwayLen(conv(q.rl, 'distance')); setRunwayId(q.rwy ?? ''); setDbRunway(dbEnd(q.rwy)); setBaselineTO(conv(q.b, 'distance'));
+    setKochMode(PERF_MODES.includes(q.mode as PerfMode) ? q.mode as PerfMode : 'precise'); if (q.poh) setPohText(q.poh); setPohBasis(q.basis==='groundRoll' ? 'groundRoll' : 'over50');
+    setTakeoffWeight(q.w ?? ''); setRefWeight(q.rw ?? ''); setMaxXwind(conv(q.xw, 'wind')); setSurfaceCond(surface(q.sfc)); setSlopePct(q.slope ?? ''); setSafetyMarginPct(q.margin ?? '0');
+    setApplyWind(q.aw!=='0'); setApplySurface(q.as!=='0'); setApplySlope(q.asl!=='0'); setApplyWeight(q.awt!=='0');
+    setLandRunwayId(q.lrwy ?? ''); setLandDbRunway(dbEnd(q.lrwy)); setLandRunwayLen(conv(q.ll, 'distance')); setLandBaseline(conv(q.lb, 'distance'));
+    setLandSurfaceCond(surface(q.lsfc)); setLandSlopePct(q.lslope ?? ''); setApplyLandWind(q.law!=='0'); setApplyLandSurface(q.las!=='0'); setApplyLandSlope(q.lasl!=='0');
+    setBookRoc(q.roc ?? ''); setClimbIas(q.ias ?? ''); setDpGradient(q.dpg ?? ''); setObstacleHeight(conv(q.obh, 'altitude')); setObstacleDist(q.obd ?? '');
+  };
+  // A link overrides the restored aircraft profile.
+  useEffect(() => { const q = readShareState(window.location.search); if (Object.keys(q).length) applyShareState(q); }, []);
+  useEffect(() => { try { window.history.replaceState(null, '', `${window.location.pathname}${shareSearch ? `?${shareSearch}` : ''}${window.location.hash}`); } catch { /* history unavailable */ } }, [shareSearch]);
+
+  /************ Calculation history ************/
+  // A check is logged once a complete calculation has stayed unchanged for a few seconds, so typing does not flood the log;
+  // an unchanged or just-reloaded calculation is not logged again.
+  const lastLoggedQuery = useRef(history[0]?.query ?? '');
+  const calcReady = takeoff.hasInputs && isFinite(parsedPA) && isFinite(parsedTempC);
+  useEffect(() => {
+    if (!calcReady || shareSearch===lastLoggedQuery.current) return;
+    const orNull = (v: number) => Number.isFinite(v) ? v : null;
+    const entry: HistoryEntry = {
+      id: newProfileId(), atMs: Date.now(), station: icao.trim().toUpperCase() || metar.station || '', metar: metarRaw.trim(), model: kochMode, forecastAtMs: forecast?.atMs ?? null,
+      tempC: orNull(parsedTempC), paFt: orNull(parsedPA), daRotFt: orNull(densityAltRotFt), daPreciseFt: orNull(densityAltPreciseFt), runway: runway?.ident ?? '',
+      runwayFt: takeoff.rwFt, requiredFt: takeoff.requiredFt, requiredWithMarginFt: takeoff.requiredWithMarginFt, marginFt: takeoff.marginFt, ok: takeoff.ok, query: shareSearch,
+    };
+    const t = setTimeout(() => { lastLoggedQuery.current = entry.query; setHistory(list => [entry, ...list].slice(0, HISTORY_LIMIT)); }, HISTORY_SETTLE_MS);
+    return () => clearTimeout(t);
+  }, [calcReady, shareSearch]);
+  useEffect(() => { saveHistory(history); }, [history]);
+  const filteredHistory = useMemo(() => {
+    const st = historyFilter.station.trim().toUpperCase();
+    return history.filter(e => (!st || e.station.includes(st)) && (!historyFilter.from || localDay(e.atMs) >= historyFilter.from) && (!historyFilter.to || localDay(e.atMs) <= historyFilter.to));
+  }, [history, historyFilter]);
+  const onLoadHistory = (e: HistoryEntry) => {
+    lastLoggedQuery.current = e.query; applyShareState(readShareState(e.query)); setBriefingOpen(false);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+  const onCopyPermalink = async () => {
+    try { await navigator.clipboard.writeText(permalink); setShareStatus('Link copied.'); } catch { setShareStatus('Copy failed; use the address bar.'); }
+  };
+  const onStationChange = (next:string) => {
+    const id = next.toUpperCase(); setIcao(id);
+    const ap = lookupAirport(airportDb, id); if (ap && ap.elevationFt != null) setFieldElevation(String(Math.round(fromFt(ap.elevationFt, units.altitude))));
+  };
+  const onPickRunway = (value:string, ap = airport) => {
+    const [ri, end] = value.split(':'); const rw = ap?.runways[Number(ri)]; if (!rw || (end!=='le' && end!=='he')) return;
+    const ident = runwayEndIdent(rw, end); if (!ident) return;
+    setDbRunway(ident); setRunwayId(ident.ident); setRunwayLen(String(Math.round(fromFt(rw.lengthFt, units.distance))));
+    const kind = surfaceKindFromDataset(rw.surface); if (kind) setSurfaceCond(kind==='grass' ? 'grass-dry' : 'paved-dry');
+    const slope = runwaySlopePct(rw, end); setSlopePct(slope!=null ? String(round(slope,1)) : '');
+  };
+  // Landing distance available starts at the (possibly displaced) threshold of the landing end.
+  const onPickLandingRunway = (value:string) => {
+    const [ri, end] = value.split(':'); const rw = airport?.runways[Number(ri)]; if (!rw || (end!=='le' && end!=='he')) return;
+    const ident = runwayEndIdent(rw, end); if (!ident) return;
+    setLandDbRunway(ident); setLandRunwayId(ident.ident); setLandRunwayLen(String(Math.round(fromFt(rw.lengthFt - rw[end].displacedThresholdFt, units.distance))));
+    const kind = surfaceKindFromDataset(rw.surface); if (kind) setLandSurfaceCond(kind==='grass' ? 'grass-dry' : 'paved-dry');
+    const slope = runwaySlopePct(rw, end); setLandSlopePct(slope!=null ? String(round(slope,1)) : '');
+  };
+  const onImportAirportCsv = async (files: FileList | null) => {
+    if (!files || !files.length) return;
+    let airportsCsv = '', runwaysCsv = '';
+    for (const f of Array.from(files)){ const txt = await f.text(); if (/airport_ident/.test(txt.slice(0, 500))) runwaysCsv = txt; else airportsCsv = txt; }
+    const next = buildAirportDb(airportsCsv, runwaysCsv, airportDb); setAirportDb(next);
+    let saved = true;
+    try { const prev = JSON.parse(localStorage.getItem(AIRPORT_STORAGE_KEY) ?? '{}'); localStorage.setItem(AIRPORT_STORAGE_KEY, JSON.stringify({ airports: airportsCsv || prev.airports || '', runways: runwaysCsv || prev.runways || '' })); } catch { saved = false; }
+    setAirportDbStatus(`${next.airports.size} airports loaded${saved ? '' : ' (too large to keep in browser storage; re-import next session)'}`);
+  };
+  const onUnitChange = (dim: UnitDim, value: string) => onUnitsChange({ ...units, [dim]: value });
+
+  /************ Briefing card ************/
+  const modelLabel = PERF_MODE_LABELS[kochMode];
+  const briefingData = () => ({
+    version: 1, generatedAt: new Date().toISOString(), permalink, station: icao.trim().toUpperCase() || metar.station,
+    metar: metarRaw.trim() || null, flightCategory: metarRaw.trim() ? flightCategory(metar) : null, taf: tafRaw.trim() || null, forecastAt: forecast ? new Date(forecast.atMs).toISOString() : null,
+    model: kochMode, conditions: { fieldElevFt, paFt: parsedPA, tempC: parsedTempC, dewC: dewExactC, densityAltitudeFt: { ruleOfThumb: densityAltRotFt, precise: densityAltPreciseFt } },
+    koch: { takeoffIncreasePct: toPct, climbLossPct: rocPct },
+    takeoff: takeoff.hasInputs ? {
+      runway: runway?.ident ?? null, runwayFt: takeoff.rwFt, requiredFt: takeoff.requiredFt, safetyMarginPct: takeoff.marginPct, requiredWithMarginFt: takeoff.requiredWithMarginFt, marginFt: takeoff.marginFt, ok: takeoff.ok, pctUsed: takeoff.pctUsed,
+      correctionFactor: takeoff.correctionFactor, corrections: takeoff.corrections.filter(l => l.enabled).map(({ key, label, factor }) => ({ key, label, factor })),
+    } : null,
+    wind: windComp, goNoGo: goNoGo.checks.length ? { pilot: pilot?.name ?? null, status: goNoGo.status, breached: goNoGo.breached.map(c => c.label) } : null,
+  });
+  if (briefingOpen){
+    const station = icao.trim().toUpperCase() || metar.station || '';
+    return (
+      <div className="mx-auto max-w-3xl p-4 text-slate-800 print:max-w-none print:p-0">
+        <div className="mb-4 flex flex-wrap gap-2 print:hidden">
+          <button className="rounded border px-3 py-2 text-sm" onClick={()=>setBriefingOpen(false)}>← Back to Calculator</button>
+          <button className="rounded bg-slate-900 px-3 py-2 text-white text-sm" onClick={()=>window.print()}>Print / Save as PDF</button>
+          <button className="rounded border px-3 py-2 text-sm" onClick={()=>downloadText(`climbcheck-briefing${station ? `-${station}` : ''}.json`, JSON.stringify(briefingData(), null, 2), 'application/json')}>Export JSON</button>
+          <button className="rounded border px-3 py-2 text-sm" onClick={onCopyPermalink}>Copy Link</button>
+          {shareStatus && <span className="self-center text-xs text-slate-500">{shareStatus}</span>}
+        </div>
+        <header className="mb-3 border-b pb-2">
+          <h1 className="text-xl font-bold">ClimbCheck Briefing{station ? ` — ${station}` : ''}{airport ? ` (${airport.name})` : ''}</h1>
+          <div className="text-xs text-slate-500">Prepared {new Date(clock).toISOString().slice(0, 16).replace('T', ' ')}Z · Model: {modelLabel}{forecast ? ` · TAF forecast for departure ${formatDayTimeZ(forecast.atMs)}` : ''}</div>
+        </header>
+        <section className="mb-3 break-inside-avoid">
+          <h2 className="font-semibold">METAR</h2>
+          {metarRaw.trim() ? <><div className="font-mono text-xs">{metarRaw.trim()}</div><DecodedMetar raw={metarRaw} fmt={fmt} /></> : <div className="text-sm text-slate-500">No METAR entered.</div>}
+        </section>
+        <section className="mb-3 break-inside-avoid">
+          <h2 className="font-semibold">Conditions & Koch Results</h2>
+          <div className="grid grid-cols-2 gap-1 text-sm md:grid-cols-3">
+            <div>Field elevation: <span className="font-medium">{fmt.alt(fieldElevFt)}</span></div>
+            <div>PA: <span className="font-medium">{isFinite(parsedPA) ? fmt.alt(parsedPA) : '–'}</span></div>
+            {altimeterInHg!=null && <div>Altimeter: <span className="font-medium">{fmt.press(altimeterInHg)}</span></div>}
+            <div>Temp: <span className="font-medium">{isFinite(parsedTempC) ? fmt.temp(parsedTempC) : '–'}</span></div>
+            <div>DA (Rule-of-thumb): <span className="font-medium">{isFinite(densityAltRotFt) ? fmt.alt(densityAltRotFt) : '–'}</span></div>
+            <div>DA (Precise): <span className="font-medium">{isFinite(densityAltPreciseFt) ? fmt.alt(densityAltPreciseFt) : '–'}</span></div>
+            <div>TO Dist +%: <span className="font-medium">{round(toPct,1)}%</span></div>
+            <div>{kochModel==='legacy' ? 'Engine Power −%' : 'ROC −%'}: <span className="font-medium">{round(rocPct,1)}%</span></div>
+          </div>
+        </section>
+        <section className="mb-3 break-inside-avoid">
+          <h2 className="font-semibold">Takeoff{runway ? ` — Rwy ${runway.ident}` : ''}</h2>
+          {takeoff.hasInputs ? (
+            <div className="grid gap-1 text-sm">
+              <div>Required: <span className="font-medium">{fmt.dist(takeoff.requiredFt)}</span>{takeoff.marginPct > 0 ? <> (<span className="font-medium">{fmt.dist(takeoff.requiredWithMarginFt)}</span> with {round(takeoff.marginPct,1)}% margin)</> : ''} of {fmt.dist(takeoff.rwFt)} (corrections ×{round(takeoff.correctionFactor,2)}) · Margin: <span className={`font-medium ${takeoff.ok ? 'text-emerald-600' : 'text-rose-600'}`}>{takeoff.ok ? '+' : ''}{fmt.dist(takeoff.marginFt)}</span></div>
+              {windComp && <div>Wind: {windComp.headKt >= 0 ? `${fmt.wind(windComp.headKt)} headwind` : `${fmt.wind(-windComp.headKt)} tailwind`}, {fmt.wind(windComp.gustCrossKt)} crosswind{windComp.crossFrom ? ` from the ${windComp.crossFrom==='L' ? 'left' : 'right'}` : ''}</div>}
+              {goNoGo.checks.length > 0 && <div>Go / No-Go{pilot ? ` (${pilot.name})` : ''}: <span className={`font-semibold ${GO_STATUS_TEXT[goNoGo.status]}`}>{goNoGo.status}</span>{goNoGo.breached.length ? ` — ${goNoGo.breached.map(c => c.label).join(', ')}` : ''}</div>}
+              <RunwayGraphic rwFt={takeoff.rwFt} requiredFt={takeoff.requiredWithMarginFt} ok={takeoff.ok} overByFt={takeoff.overByFt} pctUsed={Math.min(100, takeoff.pctUsed)} runway={runway} wind={windObs} usageLabel={takeoff.marginPct > 0 ? 'Required + margin' : undefined} fmt={fmt} />
+            </div>
+          ) : <div className="text-sm text-slate-500">Enter a runway length and baseline (or POH table) to include takeoff distance.</div>}
+        </section>
+        <section className="mb-3 break-inside-avoid">
+          <h2 className="font-semibold">Koch Chart</h2>
+          <KochGraph paFt={nz(parsedPA)} tempC={isFinite(parsedTempC)?parsedTempC:15} fieldElevFt={fieldElevFt} mode={kochMode} dewC={dewExactC} poh={pohTable ? { table: pohTable, weightLb: takeoffWeightLb, basis: pohBasis } : null} limitTempC={limits && limits.maxOat.limit==null ? limits.maxOat.value : null} fmt={fmt} />
+        </section>
+        <footer className="border-t pt-2 text-xs text-slate-500">
+          <p>{modelLabel} model. Koch and rule-of-thumb results are estimates from density altitude alone; the Precise model adds humidity; POH tables are interpolated from the entered grid. Advisory use only. Always consult AFM/POH performance charts and official weather products.</p>
+          <p className="mt-1 break-all">Link: {permalink}</p>
+        </footer>
+      </div>
+    );
+  }
 
   return (
     <div className="w-full p-4 text-slate-800 min-h-screen bg-white">
       <header className="mb-4">
         <h1 className="text-2xl font-bold">ClimbCheck — Koch Chart Calculator</h1>
         <p className="text-sm text-slate-600">Compare Rule-of-thumb vs Precise (humidity-corrected) Density Altitude, and drive Koch with your choice.</p>
+        <div className="mt-2 flex flex-wrap items-center gap-2">
+          <button className="rounded border px-3 py-1 text-sm" onClick={onCopyPermalink}>Copy Link</button>
+          <button className="rounded border px-3 py-1 text-sm" onClick={()=>{ setBriefingOpen(true); window.scrollTo({ top: 0 }); }}>Briefing Card</button>
+          {shareStatus && <span className="text-xs text-slate-500">{shareStatus}</span>}
+        </div>
+        <div className="mt-2 flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-slate-600">Units:</span>
+          <button className="rounded border px-2 py-1 text-xs" onClick={()=>onUnitsChange(UNIT_PRESETS.imperial)}>Imperial</button>
+          <button className="rounded border px-2 py-1 text-xs" onClick={()=>onUnitsChange(UNIT_PRESETS.metric)}>Metric</button>
+          {([
+            ['altitude','Altitude',[['ft','ft'],['m','m']]], ['distance','Distance',[['ft','ft'],['m','m']]], ['pressure','Pressure',[['inHg','inHg'],['hPa','hPa']]],
+            ['temperature','Temp',[['C','°C'],['F','°F']]], ['wind','Wind',(Object.keys(WIND_UNIT_LABELS) as (keyof typeof WIND_UNIT_LABELS)[]).map(k => [k, WIND_UNIT_LABELS[k]])],
+          ] as [UnitDim, string, string[][]][]).map(([dim, label, options]) => (
+            <label key={dim} className="inline-flex items-center gap-1 text-xs text-slate-600">{label}
+              <select className="rounded border px-1 py-1" value={units[dim]} onChange={(e)=>onUnitChange(dim, e.target.value)}>
+                {options.map(([v, text]) => <option key={v} value={v}>{text}</option>)}
+              </select>
+            </label>
+          ))}
+        </div>
       </header>
 
       {/* Airport & METAR */}
       <section className="mb-4 p-4 rounded-2xl shadow-sm bg-white">
         <h2 className="text-lg font-semibold mb-2">Airport & METAR</h2>
         <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
-          <input className="rounded border p-2 sm:w-48" value={icao} onChange={e=>setIcao(e.target.value.toUpperCase())} placeholder="ICAO/LID (e.g., KSMO or F70)" />
+          <input className="rounded border p-2 sm:w-48" value={icao} onChange={e=>onStationChange(e.target.value)} placeholder="ICAO/LID/IATA (e.g., KSMO or F70)" />
           <button className="rounded bg-slate-900 px-3 py-2 text-white" onClick={fetchMetarAndCompute}>Fetch METAR & Auto-fill</button>
         </div>
+        {airport && (
+          <div className="text-xs text-slate-600">
+            <span className="font-medium">{airport.icao ?? airport.ident}</span>{airport.lid && airport.lid!==airport.icao ? ` / ${airport.lid}` : ''}{airport.iata ? ` (${airport.iata})` : ''} — {airport.name}{airport.municipality ? `, ${airport.municipality}` : ''} {airport.country} · elev {airport.elevationFt!=null ? fmt.alt(airport.elevationFt) : '–'} · {airport.runways.length} runway{airport.runways.length===1 ? '' : 's'}
+          </div>
+        )}
+        {!airport && icao.trim().length >= 3 && <div className="text-xs text-slate-500">Not in the local airport database; enter field elevation and runway manually.</div>}
+        <details className="text-xs text-slate-500">
+          <summary className="cursor-pointer">Airport database ({airportDb.airports.size} airports)</summary>
+          <div className="mt-1 flex flex-col gap-1">
+            <span>Import OurAirports <code>airports.csv</code> and/or <code>runways.csv</code> to extend or replace the bundled sample set.</span>
+            <input type="file" accept=".csv,text/csv" multiple onChange={(e)=>onImportAirportCsv(e.target.files)} />
+            {airportDbStatus && <span>{airportDbStatus}</span>}
+          </div>
+        </details>
+        <details className="text-xs text-slate-500">
+          <summary className="cursor-pointer">Weather source ({WEATHER_PROVIDERS.find(p => p.kind===weather.provider)?.label})</summary>
+          <div className="mt-1 grid gap-2 md:grid-cols-3">
+            <label>Provider
+              <select className="mt-1 w-full rounded border p-1" value={weather.provider} onChange={(e)=>updateWeather({ provider: e.target.value as WeatherProviderKind })}>
+                {WEATHER_PROVIDERS.map(p => <option key={p.kind} value={p.kind}>{p.label}</option>)}
+              </select>
+            </label>
+            {(weather.provider==='aviationweather' || weather.provider==='custom') && <>
+              <label>CORS proxy prefix (blank for none)
+                <input className="mt-1 w-full rounded border p-1" value={weather.proxy} onChange={(e)=>updateWeather({ proxy: e.target.value })} placeholder="https://your-worker.example/?url=" />
+              </label>
+              {weather.provider==='custom' && <label>Endpoint URL (<code>{'{id}'}</code> is replaced by the station)
+                <input className="mt-1 w-full rounded border p-1" value={weather.endpoint} onChange={(e)=>updateWeather({ endpoint: e.target.value })} placeholder="https://example.com/metar?ids={id}" />
+              </label>}
+              {weather.provider==='custom' && <label>TAF endpoint URL (optional)
+                <input className="mt-1 w-full rounded border p-1" value={weather.tafEndpoint} onChange={(e)=>updateWeather({ tafEndpoint: e.target.value })} placeholder="https://example.com/taf?ids={id}" />
+              </label>}
+              <label>Timeout (s)
+                <input type="number" className="mt-1 w-full rounded border p-1" value={weather.timeoutSec} onChange={(e)=>updateWeather({ timeoutSec: Number(e.target.value) })} />
+              </label>
+              <label>Retries per endpoint
+                <input type="number" className="mt-1 w-full rounded border p-1" value={weather.retries} onChange={(e)=>updateWeather({ retries: Number(e.target.value) })} />
+              </label>
+              <label>Cache METARs for (min)
+                <input type="number" className="mt-1 w-full rounded border p-1" value={weather.cacheMin} onChange={(e)=>updateWeather({ cacheMin: Number(e.target.value) })} />
+              </label>
+            </>}
+            {weather.provider==='file' && <label>Weather file (METARs one per line and/or TAFs, or aviationweather XML)
+              <input className="mt-1 w-full" type="file" accept=".txt,.xml,text/plain" onChange={async (e)=>{ const f = e.target.files?.[0]; if (f) setMetarFile({ text: await f.text(), name: f.name }); }} />
+              {metarFile.name && <span>{metarFile.name} loaded</span>}
+            </label>}
+            <label>Warn when older than (min)
+              <input type="number" className="mt-1 w-full rounded border p-1" value={weather.staleMin} onChange={(e)=>updateWeather({ staleMin: Number(e.target.value) })} />
+            </label>
+          </div>
+        </details>
         <div className="text-xs text-slate-500 mb-2">{metarStatus}</div>
+        {metarAgeMin!=null && metarAgeMin > weatherCfg.staleMin && (
+          <div className="mb-2 rounded bg-amber-50 p-2 text-xs text-amber-800">METAR observed {metarAgeMin >= 120 ? `${Math.floor(metarAgeMin/60)} h ${Math.round(metarAgeMin%60)} min` : `${Math.round(metarAgeMin)} min`} ago (limit {weatherCfg.staleMin} min) — conditions may have changed; get a current report.</div>
+        )}
         <textarea className="w-full border p-2 rounded mb-2" rows={3} value={metarRaw} onChange={e=>setMetarRaw(e.target.value)} />
-        <DecodedMetar raw={metarRaw} />
+        <DecodedMetar raw={metarRaw} fmt={fmt} />
+      </section>
+
+      {/* Aircraft Profile */}
+      <section className="mb-4 p-4 rounded-2xl shadow-sm bg-white">
+        <h2 className="text-lg font-semibold mb-2">Aircraft</h2>
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+          <select className="rounded border px-3 py-2 sm:w-64" value={profileId} onChange={(e)=>onSelectProfile(e.target.value)}>
+            <option value="">— New profile —</option>
+            {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+          <button className="rounded bg-slate-900 px-3 py-2 text-white text-sm" onClick={onSaveProfile}>{profile ? 'Update Profile' : 'Save Profile'}</button>
+          {profile && <button className="rounded border px-3 py-2 text-sm" onClick={onDeleteProfile}>Delete</button>}
+          <button className="rounded border px-3 py-2 text-sm" disabled={!profiles.length} onClick={()=>downloadText('climbcheck-aircraft.json', JSON.stringify({ version: 1, profiles }, null, 2), 'application/json')}>Export JSON</button>
+          <label className="rounded border px-3 py-2 text-sm cursor-pointer">Import JSON
+            <input className="hidden" type="file" accept=".json,application/json" onChange={(e)=>{ onImportProfiles(e.target.files?.[0]); e.target.value=''; }} />
+          </label>
+        </div>
+        {profileStatus && <div className="mt-1 text-xs text-slate-500">{profileStatus}</div>}
+        <div className="mt-3 grid grid-cols-2 gap-3 md:grid-cols-4">
+          <label className="text-sm col-span-2">Name
+            <input className="mt-1 w-full rounded border p-2" value={profileDraft.name} onChange={(e)=>setProfileDraft(d => ({ ...d, name: e.target.value }))} placeholder="e.g., N12345 C172S" />
+          </label>
+          {([
+            ['groundRollFt','Ground Roll, SL/std'], ['over50Ft','Over 50 ft, SL/std'], ['landingFt','Landing over 50 ft, SL/std'], ['refWeightLb','Reference Weight (lb)'],
+            ['maxGrossLb','Max Gross Weight (lb)'], ['vyKias','Vy (KIAS)'], ['maxXwindKt','Max Demo Crosswind'],
+          ] as const).map(([k, label]) => (
+            <label key={k} className="text-sm">{label}{PROFILE_DRAFT_UNITS[k] ? ` (${unitLabel(units, PROFILE_DRAFT_UNITS[k]!)})` : ''}
+              <input className="mt-1 w-full rounded border p-2" value={profileDraft[k]} onChange={(e)=>setProfileDraft(d => ({ ...d, [k]: e.target.value }))} />
+            </label>
+          ))}
+          <label className="text-sm">Preferred Model
+            <select className="mt-1 w-full rounded border px-3 py-2" value={profileDraft.kochMode} onChange={(e)=>setProfileDraft(d => ({ ...d, kochMode: e.target.value as PerfMode }))}>
+              <option value="precise">Precise</option>
+              <option value="legacy">Legacy Koch</option>
+              <option value="rot">Rule-of-thumb</option>
+              <option value="poh">POH Table</option>
+            </select>
+          </label>
+        </div>
+        <p className="mt-2 text-xs text-slate-500">Profiles are stored in this browser. Selecting one fills the takeoff baseline (over 50 ft when given, else ground roll), landing baseline, reference weight, crosswind limit and model.</p>
+      </section>
+
+      {/* Pilot Minimums */}
+      <section className="mb-4 p-4 rounded-2xl shadow-sm bg-white">
+        <h2 className="text-lg font-semibold mb-2">Pilot &amp; Personal Minimums</h2>
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+          <select className="rounded border px-3 py-2 sm:w-64" value={pilotId} onChange={(e)=>onSelectPilot(e.target.value)}>
+            <option value="">— New pilot —</option>
+            {pilots.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+          <button className="rounded bg-slate-900 px-3 py-2 text-white text-sm" onClick={onSavePilot}>{pilot ? 'Update Pilot' : 'Save Pilot'}</button>
+          {pilot && <button className="rounded border px-3 py-2 text-sm" onClick={onDeletePilot}>Delete</button>}
+        </div>
+        {pilotStatus && <div className="mt-1 text-xs text-slate-500">{pilotStatus}</div>}
+        <div className="mt-3 grid grid-cols-2 gap-3 md:grid-cols-4">
+          <label className="text-sm col-span-2">Name
+            <input className="mt-1 w-full rounded border p-2" value={pilotName} onChange={(e)=>setPilotName(e.target.value)} placeholder="e.g., J. Smith" />
+          </label>
+          {([
+            ['minMarginPct','Min Runway Margin (%)'], ['minMarginFt','Min Runway Margin'], ['maxDaFt','Max Density Altitude'],
+            ['maxCrosswindKt','Max Crosswind'], ['maxTailwindKt','Max Tailwind'], ['maxMetarAgeMin','Max METAR Age (min)'],
+          ] as const).map(([k, label]) => (
+            <label key={k} className="text-sm">{label}{MINIMUMS_DRAFT_UNITS[k] ? ` (${unitLabel(units, MINIMUMS_DRAFT_UNITS[k]!)})` : ''}
+              <input className="mt-1 w-full rounded border p-2" value={minimumsDraft[k]} onChange={(e)=>setMinimumsDraft(d => ({ ...d, [k]: e.target.value }))} />
+            </label>
+          ))}
+          <label className="text-sm">Min Flight Category
+            <select className="mt-1 w-full rounded border px-3 py-2" value={minimumsDraft.minCategory} onChange={(e)=>setMinimumsDraft(d => ({ ...d, minCategory: e.target.value as MinimumsDraft['minCategory'] }))}>
+              <option value="">No minimum</option>
+              {MIN_CATEGORIES.map(c => <option key={c} value={c}>{c} or better</option>)}
+            </select>
+          </label>
+        </div>
+        <p className="mt-2 text-xs text-slate-500">Leave a field blank to skip that check. Runway margin % is the spare runway relative to the required distance. Minimums are stored in this browser per pilot.</p>
       </section>
 
       {/* Inputs */}
       <section className="mb-4 p-4 rounded-2xl shadow-sm bg-white">
         <h2 className="text-lg font-semibold mb-2">Inputs</h2>
-        <div className="grid gap-3 md:grid-cols-3">
-          <label className="text-sm">Field Elevation (ft)
+        <div className="grid gap-3 md:grid-cols-4">
+          <label className="text-sm">Field Elevation ({units.altitude})
             <input className={`mt-1 w-full rounded border p-2 ${!fieldElevValid ? 'border-rose-400 bg-rose-50' : ''}`} value={fieldElevation} onChange={e=>setFieldElevation(e.target.value)} />
             {!fieldElevValid && (<div className="mt-1 text-xs text-rose-600">Enter field elevation (can be 0 or negative for below-sea-level airports).</div>)}
           </label>
           <label className="text-sm">Temperature
             <div className="mt-1 flex gap-2">
               <input className="w-full rounded border p-2" value={tempVal} onChange={e=>setTempVal(e.target.value)} />
-              <select className="rounded border px-3 py-2" value={tempUnit} onChange={(e)=>onTempUnitChange(e.target.value as 'C'|'F')}>
+              <select className="rounded border px-3 py-2" value={units.temperature} onChange={(e)=>onUnitChange('temperature', e.target.value)}>
                 <option value="C">°C</option>
                 <option value="F">°F</option>
               </select>
             </div>
           </label>
-          <label className="text-sm">Pressure Altitude (ft)
+          <label className="text-sm">Altimeter / QNH
+            <div className="mt-1 flex gap-2">
+              <input className={`w-full rounded border p-2 ${!altimeterValid ? 'border-rose-400 bg-rose-50' : ''}`} value={altimeterVal} onChange={e=>onAltimeterChange(e.target.value)} placeholder={units.pressure==='hPa' ? 'e.g., 1013' : 'e.g., 29.92'} />
+              <select className="rounded border px-3 py-2" value={units.pressure} onChange={(e)=>onUnitChange('pressure', e.target.value)}>
+                <option value="inHg">inHg</option>
+                <option value="hPa">hPa</option>
+              </select>
+            </div>
+            {!altimeterValid && (<div className="mt-1 text-xs text-rose-600">Enter a setting between {fmt.press(25)} and {fmt.press(33)}.</div>)}
+          </label>
+          <label className="text-sm">Pressure Altitude ({units.altitude})
             <input className="mt-1 w-full rounded border p-2" value={paVal} onChange={e=>setPaVal(e.target.value)} />
+            {altimeterInHg!=null && <div className="mt-1 text-xs text-slate-500">From field elevation and {fmt.press(altimeterInHg)}; clear the altimeter to enter PA directly.</div>}
           </label>
         </div>
       </section>
 
+      {/* TAF & Departure Time */}
+      <section className="mb-4 p-4 rounded-2xl shadow-sm bg-white">
+        <h2 className="mb-2 text-lg font-semibold">Forecast & Departure Time</h2>
+        <div className="mb-2 flex flex-col gap-2 sm:flex-row sm:items-center">
+          <button className="rounded border px-3 py-2 text-sm" disabled={!metar.station && !icao.trim()} onClick={()=>fetchTaf(metar.station ?? (airport ? airport.icao ?? airport.ident : icao.trim().toUpperCase()))}>Fetch TAF</button>
+          <span className="text-xs text-slate-500">{tafStatus || 'Fetched together with the METAR, or paste a TAF below.'}</span>
+        </div>
+        <textarea className="mb-2 w-full rounded border p-2 font-mono text-xs" rows={3} value={tafRaw} onChange={e=>setTafRaw(e.target.value)} placeholder="TAF KXXX 191720Z 1918/2018 ..." />
+        {tafRaw.trim() && !taf && <p className="text-xs text-rose-600">Could not read the TAF header (station, issue time and DDHH/DDHH validity are required).</p>}
+        {taf && (
+          <>
+            <div className="mb-2 text-xs text-slate-600">{taf.station ?? '—'}{taf.amended ? ' (amended)' : ''} · issued {taf.issuedMs!=null ? formatDayTimeZ(taf.issuedMs) : '–'} · valid {formatDayTimeZ(taf.validFromMs)} – {formatDayTimeZ(taf.validToMs)}{taf.temps.length ? ` · ${taf.temps.map(t => `${t.kind==='max' ? 'TX' : 'TN'} ${fmt.temp(t.tempC)} at ${formatDayTimeZ(t.atMs)}`).join(', ')}` : ''}</div>
+            <table className="mb-3 w-full text-left text-xs">
+              <thead className="text-slate-500"><tr><th className="py-1 pr-2">Group</th><th className="py-1 pr-2">Valid</th><th className="py-1 pr-2">Wind</th><th className="py-1 pr-2">Visibility</th><th className="py-1 pr-2">Weather / clouds</th></tr></thead>
+              <tbody>
+                {taf.groups.map((g, k) => (
+                  <tr key={k} className={`border-t ${forecast && g.fromMs <= forecast.atMs && forecast.atMs < g.toMs ? 'bg-amber-50' : ''}`}>
+                    <td className="py-1 pr-2 font-medium">{g.change==='PROB' ? `PROB${g.probability}` : g.change==='BASE' ? 'Initial' : g.change}</td>
+                    <td className="py-1 pr-2">{formatDayTimeZ(g.fromMs)} – {formatDayTimeZ(g.toMs)}</td>
+                    <td className="py-1 pr-2">{g.wind ? formatMetarWind(g.wind, fmt) : '–'}</td>
+                    <td className="py-1 pr-2">{g.visibility ? formatMetarVisibility(g.visibility, fmt) : '–'}</td>
+                    <td className="py-1 pr-2">{[...(g.noSigWx ? ['NSW'] : g.weather.map(formatMetarWeather)), ...g.clouds.map(c => formatMetarCloud(c, fmt)), ...(g.skyClear ? ['Sky clear'] : [])].join(', ') || '–'}{g.unrecognized.length > 0 && <span className="ml-1 font-mono text-amber-600">{g.unrecognized.join(' ')}</span>}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <label className="block text-sm">Departure time: <span className="font-medium">{departureMs!=null ? formatDayTimeZ(departureMs) : 'now (current METAR)'}</span>
+              <input className="mt-1 w-full" type="range" min={taf.validFromMs} max={taf.validToMs} step={FORECAST_STEP_MS} value={departureMs ?? taf.validFromMs} onChange={(e)=>setDepartureMs(Number(e.target.value))} />
+            </label>
+            <div className="mb-2 flex items-center gap-3 text-xs">
+              <button className="rounded border px-2 py-1" disabled={departureMs==null} onClick={()=>setDepartureMs(null)}>Use current METAR</button>
+              {forecast && <span className="text-slate-600">Forecast OAT {forecast.tempC!=null ? fmt.temp(forecast.tempC) : '– (enter OAT or fetch a METAR)'} · wind {forecast.wind ? formatMetarWind(forecast.wind, fmt) : '–'}{forecast.temporary.length ? ` · ${forecast.temporary.map(g => g.change==='PROB' ? `PROB${g.probability}` : 'TEMPO').join(', ')} in force (least favourable wind used)` : ''}</span>}
+            </div>
+            {forecastTimeline.length > 0 && <ForecastTimelineGraph points={forecastTimeline} departureMs={departureMs} runwayFt={takeoff.rwFt} fmt={fmt} />}
+            <p className="mt-1 text-xs text-slate-500">Temperature is interpolated between the current observation and the TAF TX/TN groups; pressure altitude is held at the current value. Where TEMPO/PROB groups are in force the least favourable wind for the selected runway is used.</p>
+          </>
+        )}
+      </section>
+
       {/* Results */}
       <section className="mb-4 p-4 rounded-2xl shadow-sm bg-white">
         <h2 className="text-lg font-semibold mb-2">Conditions & Koch Results</h2>
+        {forecast && <p className="mb-2 rounded bg-sky-50 p-2 text-xs text-sky-800">Showing TAF forecast conditions for departure at {formatDayTimeZ(forecast.atMs)}; the entered temperature and current METAR are not used.</p>}
         <div className="mb-3 flex flex-wrap items-center gap-3 text-sm">
           <span className="text-slate-600">Use for Koch:</span>
           <label className="inline-flex items-center gap-1"><input type="radio" name="koch" checked={kochMode==='precise'} onChange={()=>setKochMode('precise')} /> <span>Precise</span></label>
           <label className="inline-flex items-center gap-1"><input type="radio" name="koch" checked={kochMode==='legacy'} onChange={()=>setKochMode('legacy')} /> <span>Legacy Koch</span></label>
           <label className="inline-flex items-center gap-1"><input type="radio" name="koch" checked={kochMode==='rot'} onChange={()=>setKochMode('rot')} /> <span>Rule-of-thumb</span></label>
+          <label className="inline-flex items-center gap-1"><input type="radio" name="koch" checked={kochMode==='poh'} onChange={()=>setKochMode('poh')} /> <span>POH Table</span></label>
         </div>
         <div className="grid grid-cols-2 gap-2 text-sm md:grid-cols-4">
-          <div>Temp: <span className="font-medium">{isFinite(parsedTempC) ? `${round(parsedTempC,1)} °C / ${round(cToF(parsedTempC),1)} °F` : '–'}</span></div>
-          <div>PA: <span className="font-medium">{isFinite(parsedPA) ? `${round(parsedPA)} ft` : '–'}</span></div>
-          <div>DA (Rule-of-thumb): <span className="font-medium">{isFinite(densityAltRotFt) ? `${round(densityAltRotFt)} ft` : '–'}</span></div>
-          <div>DA (Precise): <span className="font-medium">{isFinite(densityAltPreciseFt) ? `${round(densityAltPreciseFt)} ft` : '–'}</span></div>
-          <div>TO Dist +% (from {kochMode==='precise'?'Precise':(kochMode==='legacy'?'Legacy Koch':'Rule-of-thumb')} DA): <span className="font-medium">{round(toPct,1)}%</span></div>
-          <div>{kochMode==='legacy' ? 'Engine Power −%' : 'ROC −%'} (from {kochMode==='precise'?'Precise':'Rule-of-thumb'} DA): <span className="font-medium">{round(rocPct,1)}%</span></div>
+          <div>Temp: <span className="font-medium">{isFinite(parsedTempC) ? fmt.temp(parsedTempC) : '–'}</span></div>
+          <div>PA: <span className="font-medium">{isFinite(parsedPA) ? fmt.alt(parsedPA) : '–'}</span></div>
+          <div>DA (Rule-of-thumb): <span className="font-medium">{isFinite(densityAltRotFt) ? fmt.alt(densityAltRotFt) : '–'}</span></div>
+          <div>DA (Precise): <span className="font-medium">{isFinite(densityAltPreciseFt) ? fmt.alt(densityAltPreciseFt) : '–'}</span></div>
+          <div>TO Dist +% (from {PERF_MODE_LABELS[kochModel]} DA): <span className="font-medium">{round(toPct,1)}%</span></div>
+          <div>{kochModel==='legacy' ? 'Engine Power −%' : 'ROC −%'} (from {PERF_MODE_LABELS[kochModel]} DA): <span className="font-medium">{round(rocPct,1)}%</span></div>
+          {pohResult && (() => { const d = pohDistFt(pohResult), isa = pohDistFt(pohIsaResult); return (
+            <div>TO Dist +% (POH table): <span className="font-medium">{isa > 0 ? `${round((d/isa - 1)*100,1)}%` : '–'}</span></div>
+          ); })()}
         </div>
+        {kochMode==='poh' && !pohTable && <p className="mt-2 text-xs text-amber-600">POH Table mode needs a performance table (see below); Koch results use Precise DA meanwhile.</p>}
         <p className="mt-2 text-xs text-slate-500">Advisory use only. Always consult AFM/POH and official weather products.</p>
       </section>
 
+      {/* POH Performance Table */}
+      <section className="mb-4 p-4 rounded-2xl shadow-sm bg-white">
+        <h2 className="mb-1 text-lg font-semibold">POH Takeoff Table</h2>
+        <p className="mb-2 text-xs text-slate-500">Paste or import the POH takeoff grid as CSV (<code>weight_lb,pa_ft,oat_c,ground_roll_ft,over_50_ft</code>, one row per cell; weight and over-50 columns optional) or JSON. Values are interpolated bilinearly in PA × OAT, then linearly in the takeoff weight entered under Runway & Takeoff Distance.</p>
+        <textarea className={`w-full rounded border p-2 font-mono text-xs ${pohError ? 'border-rose-400 bg-rose-50' : ''}`} rows={5} value={pohText} onChange={(e)=>setPohText(e.target.value)} placeholder={"weight_lb,pa_ft,oat_c,ground_roll_ft,over_50_ft\n2550,0,0,860,1465\n2550,0,40,1060,1775\n..."} />
+        <div className="mt-2 grid grid-cols-1 gap-3 text-sm md:grid-cols-2">
+          <label className="text-sm">Import CSV/JSON
+            <input className="mt-1 block w-full text-xs" type="file" accept=".csv,.json,text/csv,application/json" onChange={async (e)=>{ const f = e.target.files?.[0]; if (f) setPohText(await f.text()); }} />
+          </label>
+          <label className="text-sm">Compare Runway Against
+            <select className="mt-1 w-full rounded border px-3 py-2" value={pohBasis} onChange={(e)=>setPohBasis(e.target.value as 'groundRoll'|'over50')}>
+              <option value="over50">Total over 50 ft obstacle</option>
+              <option value="groundRoll">Ground roll</option>
+            </select>
+          </label>
+        </div>
+        {pohError && <div className="mt-1 text-xs text-rose-600">{pohError}</div>}
+        {pohTable && (
+          <div className="mt-2 text-xs text-slate-600">
+            Table: PA {Math.round(fromFt(pohTable.paFt[0], units.altitude))}–{fmt.alt(pohTable.paFt[pohTable.paFt.length-1])} · OAT {round(fromC(pohTable.oatC[0], units.temperature),1)}–{fmt.temp(pohTable.oatC[pohTable.oatC.length-1])}{pohTable.hasWeights ? ` · weights ${pohTable.weightsLb.join(', ')} lb` : ''}{pohTable.over50Ft ? '' : ' · ground roll only'}
+            {pohBasis==='over50' && !pohTable.over50Ft && <span className="text-amber-600"> (no over-50 ft column; using ground roll)</span>}
+          </div>
+        )}
+        {pohResult && (
+          <div className="mt-2 text-sm">
+            <div>Ground roll: <span className="font-medium">{fmt.dist(pohResult.groundRollFt)}</span>{pohResult.over50Ft!=null && <> · Over 50 ft: <span className="font-medium">{fmt.dist(pohResult.over50Ft)}</span></>} <span className="text-xs text-slate-500">(no wind)</span></div>
+            {pohResult.warnings.map((w,i) => <div key={i} className="text-xs text-amber-600">{w}</div>)}
+          </div>
+        )}
+      </section>
+
       {/* Runway & Takeoff Distance */}
       <section className="mb-4 p-4 rounded-2xl shadow-sm bg-white">
-        <h2 className="mb-2 text-lg font-semibold">Runway & Takeoff Distance</h2>
+        <h2 className="mb-2 text-lg font-semibold">Runway & Takeoff Distance{forecast ? ` — forecast ${formatDayTimeZ(forecast.atMs)}` : ''}</h2>
+        {airport && airport.runways.length > 0 && (
+          <label className="mb-3 block text-sm">Runway ({airport.icao ?? airport.ident})
+            <select className="mt-1 w-full rounded border px-3 py-2" value="" onChange={(e)=>onPickRunway(e.target.value)}>
+              <option value="">Select a runway to fill length and heading…</option>
+              {airport.runways.flatMap((rw, ri) => (['le','he'] as const).map(end => {
+                const id = runwayEndIdent(rw, end); if (!id) return null; const dt = rw[end].displacedThresholdFt;
+                return <option key={`${ri}:${end}`} value={`${ri}:${end}`}>{id.ident} — {fmt.dist(rw.lengthFt)}{rw.widthFt ? ` × ${fmt.dist(rw.widthFt)}` : ''}, {rw.surface || 'surface n/a'}, hdg {Math.round(id.headingDeg)}°{rw[end].headingDegT!=null ? 'T' : ' (designator)'}{dt > 0 ? `, displaced threshold ${fmt.dist(dt)}` : ''}</option>;
+              }))}
+            </select>
+          </label>
+        )}
         <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
           <label className="text-sm">Runway Length
             <div className="mt-1 flex gap-2">
               <input className="w-full rounded border p-2" value={runwayLen} onChange={(e)=>setRunwayLen(e.target.value)} placeholder="e.g., 3800" />
-              <select className="rounded border px-3 py-2" value={runwayUnit} onChange={(e)=>{ const next=e.target.value as 'ft'|'m'; const v=Number(runwayLen); if(isFinite(v)){ if(runwayUnit==='ft'&&next==='m') setRunwayLen(String(round(v*0.3048,1))); if(runwayUnit==='m'&&next==='ft') setRunwayLen(String(Math.round(v/0.3048))); } setRunwayUnit(next); }}>
+              <select className="rounded border px-3 py-2" value={units.distance} onChange={(e)=>onUnitChange('distance', e.target.value)}>
                 <option value="ft">ft</option>
                 <option value="m">m</option>
               </select>
@@ -337,47 +1247,387 @@ export default function App(){
           <label className="text-sm">Baseline TO Distance (POH, sea-level/std day)
             <div className="mt-1 flex gap-2">
               <input className="w-full rounded border p-2" value={baselineTO} onChange={(e)=>setBaselineTO(e.target.value)} placeholder="e.g., 1200" />
-              <select className="rounded border px-3 py-2" value={baselineUnit} onChange={(e)=>{ const next=e.target.value as 'ft'|'m'; const v=Number(baselineTO); if(isFinite(v)){ if(baselineUnit==='ft'&&next==='m') setBaselineTO(String(round(v*0.3048,1))); if(baselineUnit==='m'&&next==='ft') setBaselineTO(String(Math.round(v/0.3048))); } setBaselineUnit(next); }}>
+              <select className="rounded border px-3 py-2" value={units.distance} onChange={(e)=>onUnitChange('distance', e.target.value)}>
                 <option value="ft">ft</option>
                 <option value="m">m</option>
               </select>
             </div>
           </label>
+          <label className="text-sm">Departure Runway (designator or heading)
+            <input className={`mt-1 w-full rounded border p-2 ${runwayId.trim() && !runway ? 'border-rose-400 bg-rose-50' : ''}`} value={runwayId} onChange={(e)=>setRunwayId(e.target.value.toUpperCase())} placeholder="e.g., 27, 09L or 273" />
+            {runwayId.trim() && !runway && (<div className="mt-1 text-xs text-rose-600">Use a designator 01–36 (optionally L/C/R) or a 3-digit heading.</div>)}
+          </label>
+          <label className="text-sm">Max Demonstrated Crosswind ({fmt.windUnit})
+            <input className="mt-1 w-full rounded border p-2" value={maxXwind} onChange={(e)=>setMaxXwind(e.target.value)} placeholder="e.g., 15" />
+          </label>
+          <label className="inline-flex items-center gap-2 text-sm md:col-span-2">
+            <input type="checkbox" checked={applyWind} onChange={(e)=>setApplyWind(e.target.checked)} />
+            <span>Apply wind correction (−10% per 9 kt headwind, +10% per 2 kt tailwind)</span>
+          </label>
         </div>
+        <h3 className="mt-4 mb-2 text-sm font-semibold">Corrections</h3>
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+          <label className="text-sm">
+            <span className="inline-flex items-center gap-2"><input type="checkbox" checked={applySurface} onChange={(e)=>setApplySurface(e.target.checked)} /> Runway Surface</span>
+            <select className="mt-1 w-full rounded border px-3 py-2" value={surfaceCond} onChange={(e)=>setSurfaceCond(e.target.value as SurfaceCondition)} disabled={!applySurface}>
+              {(Object.keys(SURFACE_FACTORS) as SurfaceCondition[]).map(k => <option key={k} value={k}>{SURFACE_FACTORS[k].label} (TO ×{SURFACE_FACTORS[k].takeoff.toFixed(2)})</option>)}
+            </select>
+          </label>
+          <label className="text-sm">
+            <span className="inline-flex items-center gap-2"><input type="checkbox" checked={applySlope} onChange={(e)=>setApplySlope(e.target.checked)} /> Runway Slope (%, + uphill)</span>
+            <input className="mt-1 w-full rounded border p-2" value={slopePct} onChange={(e)=>setSlopePct(e.target.value)} placeholder="e.g., 1.5 or -2" disabled={!applySlope} />
+          </label>
+          <div className="text-sm">
+            <span className="inline-flex items-center gap-2"><input type="checkbox" checked={applyWeight} onChange={(e)=>setApplyWeight(e.target.checked)} /> Weight (W/Wref)²</span>
+            <div className="mt-1 flex gap-2">
+              <input className="w-full rounded border p-2" value={takeoffWeight} onChange={(e)=>setTakeoffWeight(e.target.value)} placeholder={pohTable?.hasWeights ? `TO wt ${pohTable.weightsLb[0]}–${pohTable.weightsLb[pohTable.weightsLb.length-1]}` : 'TO weight (lb)'} aria-label="Takeoff weight (lb)" />
+              <input className="w-full rounded border p-2" value={refWeight} onChange={(e)=>setRefWeight(e.target.value)} placeholder="Ref wt (lb)" aria-label="Reference weight (lb)" disabled={!applyWeight} />
+            </div>
+          </div>
+        </div>
+        <label className="mt-3 block text-sm">Safety Margin (% added to required distance; must still fit the runway)
+          <input className="mt-1 w-full rounded border p-2 md:w-48" value={safetyMarginPct} onChange={(e)=>setSafetyMarginPct(e.target.value)} placeholder="e.g., 33" />
+        </label>
+        {profile?.maxGrossLb!=null && takeoffWeightLb!=null && takeoffWeightLb > profile.maxGrossLb && <div className="mt-1 text-xs text-rose-600">Warning: takeoff weight exceeds {profile.name} max gross weight ({profile.maxGrossLb} lb).</div>}
         {(() => {
-          const rw  = Number(runwayLen);
-          const base = Number(baselineTO);
-          const rwFt = runwayUnit==='ft' ? (isFinite(rw)?rw:0) : (isFinite(rw)?rw/0.3048:0);
-          const baseFt = baselineUnit==='ft' ? (isFinite(base)?base:0) : (isFinite(base)?base/0.3048:0);
-
-          // Only compute "real" results when both inputs are provided (>0)
-          const hasInputs = rwFt > 0 && baseFt > 0;
-          const hasRunway = rwFt > 0;
+          const { rwFt, baseFt, usePoh, kochBaseFt, hasInputs, densityAltitudeFt: da, kochFactor, windFactor, xwLimit, xwExceeded, tailKt, corrections, kochRequiredFt, uncorrectedFt, requiredFt, requiredWithMarginFt, marginPct, marginFt, ok, isaEquivalentFt, pctUsed, overByFt, pohWarnings } = takeoff;
+          return (
+            <div className="mt-3 grid gap-3 text-sm">
+              {windComp && (
+                <div>Wind (Rwy {runway?.ident}): <span className="font-medium">{windComp.headKt >= 0 ? `${fmt.wind(windComp.headKt)} headwind` : `${fmt.wind(-windComp.headKt)} tailwind`}</span>, <span className="font-medium">{fmt.wind(windComp.crossKt)} crosswind{windComp.crossFrom ? ` from the ${windComp.crossFrom==='L' ? 'left' : 'right'}` : ''}</span>
+                  {windObs?.gustKt != null && <> (gusts: {windComp.gustHeadKt >= 0 ? `${fmt.wind(windComp.gustHeadKt)} head` : `${fmt.wind(-windComp.gustHeadKt)} tail`}, {fmt.wind(windComp.gustCrossKt)} cross)</>}
+                  {applyWind && <> → wind factor <span className="font-medium">×{round(windFactor,2)}</span></>}
+                </div>
+              )}
+              {windComp?.variable && <div className="text-xs text-amber-600">Variable wind: treated as a full tailwind and full crosswind.</div>}
+              {!windObs && runway && metarRaw.trim() !== '' && <div className="text-xs text-slate-500">No usable wind group in METAR; no wind correction applied.</div>}
+              {hasInputs && (
+                <DistanceBreakdown
+                  steps={usePoh
+                    ? [{ label: `POH table (${pohBasis==='over50' && pohTable?.over50Ft!=null ? 'over 50 ft' : 'ground roll'})`, ft: uncorrectedFt }]
+                    : [{ label: 'Baseline (sea-level/std day)', ft: baseFt }, { label: `Density altitude (${PERF_MODE_LABELS[kochModel]}, ${fmt.alt(da.model)})`, factor: kochFactor, ft: uncorrectedFt }]}
+                  corrections={corrections} startFt={usePoh ? uncorrectedFt : baseFt} totalFt={requiredFt} fmt={fmt} />
+              )}
+              <div>Estimated Required TO Distance{usePoh ? ' (POH table)' : ''}: <span className="font-medium">{fmt.dist(requiredFt)}</span></div>
+              {hasInputs && marginPct > 0 && <div>With {round(marginPct,1)}% Safety Margin: <span className="font-medium">{fmt.dist(requiredWithMarginFt)}</span></div>}
+              {usePoh && kochBaseFt > 0 && (
+                <div className="grid grid-cols-2 gap-2 rounded border border-slate-200 p-2 text-xs md:w-1/2">
+                  <div>POH table{pohBasis==='over50' && pohTable?.over50Ft!=null ? ' (over 50 ft)' : ' (ground roll)'}: <span className="font-medium">{fmt.dist(requiredFt)}</span></div>
+                  <div>Koch (Precise DA{baseFt > 0 ? '' : ', table ISA baseline'}): <span className="font-medium">{fmt.dist(kochRequiredFt)}</span> ({kochRequiredFt > 0 ? `${requiredFt >= kochRequiredFt ? '+' : ''}${round((requiredFt/kochRequiredFt - 1)*100,1)}%` : '–'})</div>
+                </div>
+              )}
+              {usePoh && pohWarnings.some(w => w.includes('extrapolated')) && <div className="text-xs text-amber-600">Warning: conditions fall outside the POH table; the required distance is extrapolated.</div>}
+              <div>Runway Margin: <span className={`font-medium ${ok ? 'text-emerald-600' : 'text-rose-600'}`}>{ok?'+':''}{fmt.dist(marginFt)}</span></div>
+              <div>In these conditions, a runway of <span className="font-medium">{fmt.dist(rwFt)}</span> would be equivalent to an ISA sea-level runway length of <span className="font-medium">{fmt.dist(isaEquivalentFt)}</span>.</div>
+              {(hasInputs && !ok) && <div className="text-xs text-rose-600">Warning: Estimated distance{marginPct > 0 ? ' plus safety margin' : ''} exceeds runway length.</div>}
+              {xwExceeded && <div className="text-xs text-rose-600">Warning: {windObs?.gustKt != null ? 'Gusting crosswind' : 'Crosswind'} of {fmt.wind(windComp!.gustCrossKt)} exceeds max demonstrated crosswind ({fmt.wind(xwLimit)}).</div>}
+              {tailKt > 10 && <div className="text-xs text-rose-600">Warning: Tailwind of {fmt.wind(tailKt)} exceeds the {fmt.wind(10)} typically covered by POH corrections.</div>}
+              <RunwayGraphic rwFt={rwFt} requiredFt={requiredWithMarginFt} ok={ok} overByFt={overByFt} pctUsed={Math.min(100, pctUsed)} runway={runway} wind={windObs} usageLabel={marginPct > 0 ? 'Required + margin' : undefined} fmt={fmt} />
+            </div>
+          );
+        })()}
+      </section>
 
-          const effDA = nz(daForKoch);
-          const multiplier = kochMode==='legacy' ? (1 + 0.125*(effDA/1000)) : (1 + 0.15*(effDA/1000));
+      {/* Go / No-Go */}
+      <section className="mb-4 p-4 rounded-2xl shadow-sm bg-white">
+        <h2 className="mb-2 text-lg font-semibold">Go / No-Go{pilot ? ` — ${pilot.name}` : ''}</h2>
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-start">
+          <div className={`rounded-xl px-6 py-4 text-center text-3xl font-bold tracking-wide ${goNoGo.checks.length ? GO_STATUS_COLORS[goNoGo.status] : 'bg-slate-200 text-slate-500'}`}>{goNoGo.checks.length ? goNoGo.status : '—'}</div>
+          <div className="text-sm">
+            {goNoGo.breached.length ? (
+              <>
+                <div className="font-medium text-rose-600">Limits breached:</div>
+                <ul className="list-disc pl-5 text-rose-600">{goNoGo.breached.map(c => <li key={c.key}>{c.label}: {c.actual} (limit {c.limit})</li>)}</ul>
+              </>
+            ) : goNoGo.status==='CAUTION' ? <div className="text-amber-600">No limits breached; some checks are close to a limit or lack data.</div>
+              : goNoGo.checks.length ? <div className="text-emerald-600">All checks within limits.</div>
+              : <div className="text-slate-500">Enter runway and baseline data, and personal minimums, to assess.</div>}
+          </div>
+        </div>
+        {goNoGo.checks.length > 0 && (
+          <table className="mt-3 w-full text-sm">
+            <thead><tr className="text-left text-xs text-slate-500"><th className="py-1">Check</th><th>Limit</th><th>Actual</th><th>Status</th></tr></thead>
+            <tbody>
+              {goNoGo.checks.map(c => (
+                <tr key={c.key} className="border-t">
+                  <td className="py-1">{c.label}</td><td>{c.limit}</td><td>{c.actual}</td>
+                  <td className={`font-medium ${GO_STATUS_TEXT[c.status]}`}>{c.status}{c.note && <span className="ml-1 text-xs font-normal text-slate-500">({c.note})</span>}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
 
-          const requiredFt = hasInputs ? (baseFt * multiplier) : 0;
-          const marginFt   = hasInputs ? (rwFt - requiredFt) : 0;
-          const ok         = hasInputs ? (marginFt >= 0) : true; // default OK when empty
-          const isaEquivalentFt = (hasRunway && multiplier>0) ? (rwFt / multiplier) : 0;
+      {/* Limiting Conditions */}
+      <section className="mb-4 p-4 rounded-2xl shadow-sm bg-white">
+        <h2 className="mb-1 text-lg font-semibold">Limiting Conditions</h2>
+        <p className="mb-2 text-xs text-slate-500">Highest OAT, density altitude and pressure altitude at which the corrected takeoff distance, plus the safety margin, still fits the runway. Wind, surface, slope, weight and the safety margin are held at their current values.</p>
+        {limits ? (() => {
+          const signed = (v:number, f:(x:number) => string) => `${v >= 0 ? '+' : ''}${f(v)}`;
+          const cls = (v:number) => v >= 0 ? 'text-emerald-600' : 'text-rose-600';
+          return (
+            <div className="mt-3 grid gap-2 text-sm md:grid-cols-3">
+              <div>Max OAT (at PA {fmt.alt(parsedPA)}): {limits.maxOat.limit==='none' ? <span className="font-medium text-rose-600">does not fit at any temperature</span> : limits.maxOat.limit==='range' ? <span className="font-medium text-emerald-600">above {fmt.temp(60)}</span> : <><span className="font-medium">{fmt.temp(limits.maxOat.value)}</span> <span className={cls(limits.oatHeadroomC)}>({signed(limits.oatHeadroomC, fmt.tempDelta)})</span></>}</div>
+              <div>Max Density Altitude: {isFinite(limits.maxDaFt) && limits.maxOat.limit==null ? <><span className="font-medium">{fmt.alt(limits.maxDaFt)}</span> <span className={cls(limits.daHeadroomFt)}>({signed(limits.daHeadroomFt, fmt.alt)})</span></> : '–'}</div>
+              <div>Max Pressure Altitude (at {fmt.temp(parsedTempC)}): {limits.maxPa.limit==='none' ? <span className="font-medium text-rose-600">does not fit at any altitude</span> : limits.maxPa.limit==='range' ? <span className="font-medium text-emerald-600">above {fmt.alt(30000)}</span> : <><span className="font-medium">{fmt.alt(limits.maxPa.value)}</span> <span className={cls(limits.paHeadroomFt)}>({signed(limits.paHeadroomFt, fmt.alt)})</span></>}</div>
+            </div>
+          );
+        })() : (
+          <p className="mt-2 text-xs text-slate-500">Enter runway length, baseline (or a POH table), temperature and pressure altitude to solve for limits.</p>
+        )}
+      </section>
 
-          const pctUsed = hasInputs ? Math.max(0, Math.min(100, (requiredFt / rwFt) * 100)) : 0;
-          const overByFt = hasInputs ? Math.max(0, requiredFt - rwFt) : 0;
+      {/* Climb Gradient */}
+      <section className="mb-4 p-4 rounded-2xl shadow-sm bg-white">
+        <h2 className="mb-2 text-lg font-semibold">Climb Gradient & Departure Check</h2>
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+          <label className="text-sm">Book Rate of Climb (fpm, SL/std)
+            <input className="mt-1 w-full rounded border p-2" value={bookRoc} onChange={(e)=>setBookRoc(e.target.value)} placeholder="e.g., 730" />
+          </label>
+          <label className="text-sm">Climb Speed (KIAS)
+            <input className="mt-1 w-full rounded border p-2" value={climbIas} onChange={(e)=>setClimbIas(e.target.value)} placeholder="e.g., 74 (Vy)" />
+          </label>
+          <label className="text-sm">Required Climb Gradient, DP (ft/NM)
+            <input className="mt-1 w-full rounded border p-2" value={dpGradient} onChange={(e)=>setDpGradient(e.target.value)} placeholder="e.g., 400" />
+          </label>
+          <label className="text-sm">Obstacle Height above Runway End ({units.altitude})
+            <input className="mt-1 w-full rounded border p-2" value={obstacleHeight} onChange={(e)=>setObstacleHeight(e.target.value)} placeholder="optional" />
+          </label>
+          <label className="text-sm">Obstacle Distance from Runway End (NM)
+            <input className="mt-1 w-full rounded border p-2" value={obstacleDist} onChange={(e)=>setObstacleDist(e.target.value)} placeholder="optional" />
+          </label>
+        </div>
+        {climb ? (
+          <div className="mt-3 grid gap-2 text-sm">
+            <div>Actual ROC: <span className="font-medium">{Math.round(climb.actualRocFpm)} fpm</span> (book −{round(climb.rocLoss,1)}%) · TAS <span className="font-medium">{Math.round(climb.tasKt)} kt</span> · GS <span className="font-medium">{Math.round(climb.gsKt)} kt</span>{climb.headKt!==0 && <span className="text-slate-500"> ({climb.headKt > 0 ? `${fmt.wind(climb.headKt)} headwind` : `${fmt.wind(-climb.headKt)} tailwind`})</span>}</div>
+            <div>Climb Gradient: <span className="font-medium">{Math.round(climb.gradientFtPerNm)} ft/NM</span> ({round(climb.gradientPct,1)}%)</div>
+            {climb.requiredFtPerNm!=null && (
+              <div>Required: <span className="font-medium">{Math.round(climb.requiredFtPerNm)} ft/NM</span> ({round(ftPerNmToPct(climb.requiredFtPerNm),1)}%) → <span className={`font-medium ${climb.ok ? 'text-emerald-600' : 'text-rose-600'}`}>{climb.ok ? `meets it by ${Math.round(climb.gradientFtPerNm - climb.requiredFtPerNm)} ft/NM` : `short by ${Math.round(climb.requiredFtPerNm - climb.gradientFtPerNm)} ft/NM`}</span></div>
+            )}
+            {climb.requiredFtPerNm==null && climb.gradientFtPerNm < 200 && <div className="text-xs text-amber-600">Below the 200 ft/NM standard instrument departure gradient.</div>}
+            {climb.obstacle && (() => { const clr = climb.heightAtDerFt + climb.gradientFtPerNm * climb.obstacle.distNm - climb.obstacle.heightFt; return (
+              <div>Obstacle Clearance: <span className={`font-medium ${clr >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>{clr >= 0 ? '+' : ''}{fmt.alt(clr)}</span> at {climb.obstacle.distNm} NM <span className="text-xs text-slate-500">(starting {fmt.alt(climb.heightAtDerFt)} above the runway end: {climb.heightBasis})</span></div>
+            ); })()}
+            {!climb.ok && <div className="text-xs text-rose-600">Warning: Expected climb gradient does not meet the required gradient.</div>}
+            {takeoff.hasInputs && takeoff.requiredFt > takeoff.rwFt && <div className="text-xs text-rose-600">Takeoff distance exceeds the runway; climb profile assumes liftoff at the runway end.</div>}
+          </div>
+        ) : (
+          <p className="mt-2 text-xs text-slate-500">Enter book rate of climb and climb speed to compute the climb gradient.</p>
+        )}
+      </section>
 
+      {/* Landing Distance */}
+      <section className="mb-4 p-4 rounded-2xl shadow-sm bg-white">
+        <h2 className="mb-2 text-lg font-semibold">Landing Distance</h2>
+        {airport && airport.runways.length > 0 && (
+          <label className="mb-3 block text-sm">Landing Runway ({airport.icao ?? airport.ident})
+            <select className="mt-1 w-full rounded border px-3 py-2" value="" onChange={(e)=>onPickLandingRunway(e.target.value)}>
+              <option value="">Select a runway to fill landing distance available and heading…</option>
+              {airport.runways.flatMap((rw, ri) => (['le','he'] as const).map(end => {
+                const id = runwayEndIdent(rw, end); if (!id) return null; const dt = rw[end].displacedThresholdFt;
+                return <option key={`${ri}:${end}`} value={`${ri}:${end}`}>{id.ident} — LDA {fmt.dist(rw.lengthFt - dt)}{dt > 0 ? ` (displaced threshold ${fmt.dist(dt)})` : ''}, {rw.surface || 'surface n/a'}, hdg {Math.round(id.headingDeg)}°{rw[end].headingDegT!=null ? 'T' : ' (designator)'}</option>;
+              }))}
+            </select>
+          </label>
+        )}
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+          <label className="text-sm">Landing Distance Available
+            <div className="mt-1 flex gap-2">
+              <input className="w-full rounded border p-2" value={landRunwayLen} onChange={(e)=>setLandRunwayLen(e.target.value)} placeholder="e.g., 3800" />
+              <select className="rounded border px-3 py-2" value={units.distance} onChange={(e)=>onUnitChange('distance', e.target.value)}>
+                <option value="ft">ft</option>
+                <option value="m">m</option>
+              </select>
+            </div>
+          </label>
+          <label className="text-sm">Baseline Landing Distance (POH, sea-level/std day)
+            <div className="mt-1 flex gap-2">
+              <input className="w-full rounded border p-2" value={landBaseline} onChange={(e)=>setLandBaseline(e.target.value)} placeholder="e.g., 1300" />
+              <select className="rounded border px-3 py-2" value={units.distance} onChange={(e)=>onUnitChange('distance', e.target.value)}>
+                <option value="ft">ft</option>
+                <option value="m">m</option>
+              </select>
+            </div>
+          </label>
+          <label className="text-sm">Landing Runway (designator or heading)
+            <input className={`mt-1 w-full rounded border p-2 ${landRunwayId.trim() && !landRunway ? 'border-rose-400 bg-rose-50' : ''}`} value={landRunwayId} onChange={(e)=>setLandRunwayId(e.target.value.toUpperCase())} placeholder="e.g., 09, 27R or 093" />
+            {landRunwayId.trim() && !landRunway && (<div className="mt-1 text-xs text-rose-600">Use a designator 01–36 (optionally L/C/R) or a 3-digit heading.</div>)}
+          </label>
+          <label className="inline-flex items-center gap-2 text-sm self-end">
+            <input type="checkbox" checked={applyLandWind} onChange={(e)=>setApplyLandWind(e.target.checked)} />
+            <span>Apply wind correction</span>
+          </label>
+          <label className="text-sm">
+            <span className="inline-flex items-center gap-2"><input type="checkbox" checked={applyLandSurface} onChange={(e)=>setApplyLandSurface(e.target.checked)} /> Runway Surface</span>
+            <select className="mt-1 w-full rounded border px-3 py-2" value={landSurfaceCond} onChange={(e)=>setLandSurfaceCond(e.target.value as SurfaceCondition)} disabled={!applyLandSurface}>
+              {(Object.keys(SURFACE_FACTORS) as SurfaceCondition[]).map(k => <option key={k} value={k}>{SURFACE_FACTORS[k].label} (LDG ×{SURFACE_FACTORS[k].landing.toFixed(2)})</option>)}
+            </select>
+          </label>
+          <label className="text-sm">
+            <span className="inline-flex items-center gap-2"><input type="checkbox" checked={applyLandSlope} onChange={(e)=>setApplyLandSlope(e.target.checked)} /> Runway Slope (%, + uphill)</span>
+            <input className="mt-1 w-full rounded border p-2" value={landSlopePct} onChange={(e)=>setLandSlopePct(e.target.value)} placeholder="e.g., -1.5" disabled={!applyLandSlope} />
+          </label>
+        </div>
+        {(() => {
+          const rw = Number(landRunwayLen); const base = Number(landBaseline);
+          const rwFt = isFinite(rw) ? toFt(rw, units.distance) : 0;
+          const baseFt = isFinite(base) ? toFt(base, units.distance) : 0;
+          const r = calculateLanding({
+            paFt: parsedPA, tempC: parsedTempC, dewC: dewExactC, fieldElevFt, runwayFt: rwFt, model: kochModel, baselineFt: baseFt, wind: windObs, runwayHeadingDeg: landRunway?.headingDeg ?? null,
+            surface: landSurfaceCond, slopePct: landSlopePct.trim()!=='' ? Number(landSlopePct) : null, apply: { wind: applyLandWind, surface: applyLandSurface, slope: applyLandSlope },
+          }, fmt);
+          const hasInputs = rwFt > 0 && r.uncorrectedFt > 0;
+          const { daFactor, corrections, uncorrectedFt } = r;
+          const requiredFt = hasInputs ? r.requiredFt : 0;
+          const marginFt = hasInputs ? r.marginFt : 0;
+          const ok = hasInputs ? r.ok : true;
+          const pctUsed = hasInputs ? Math.max(0, Math.min(100, r.pctUsed)) : 0;
+          const overByFt = hasInputs ? Math.max(0, -r.marginFt) : 0;
+          const xwLimit = toKt(Number(maxXwind), units.wind);
+          const xwExceeded = !!landWindComp && maxXwind.trim() !== '' && isFinite(xwLimit) && landWindComp.gustCrossKt > xwLimit;
+          const tailKt = landWindComp ? Math.max(0, -landWindComp.headKt, -landWindComp.gustHeadKt) : 0;
           return (
             <div className="mt-3 grid gap-3 text-sm">
-              <div>Estimated Required TO Distance: <span className="font-medium">{Math.round(requiredFt)} ft</span> ({round(ftToM(requiredFt),0)} m)</div>
-              <div>Runway Margin: <span className={`font-medium ${ok ? 'text-emerald-600' : 'text-rose-600'}`}>{ok?'+':''}{Math.round(marginFt)} ft</span></div>
-              <div>In these conditions, a runway of <span className="font-medium">{Math.round(rwFt)} ft</span> (<span className="font-medium">{Math.round(ftToM(rwFt))} m</span>) would be equivalent to an ISA sea-level runway length of <span className="font-medium">{Math.round(isaEquivalentFt)} ft</span> (<span className="font-medium">{Math.round(ftToM(isaEquivalentFt))} m</span>).</div>
-              {(hasInputs && !ok) && <div className="text-xs text-rose-600">Warning: Estimated distance exceeds runway length.</div>}
-
-              <RunwayGraphic rwFt={rwFt} requiredFt={requiredFt} ok={ok} overByFt={overByFt} pctUsed={pctUsed} />
+              {landWindComp && (
+                <div>Wind (Rwy {landRunway?.ident}): <span className="font-medium">{landWindComp.headKt >= 0 ? `${fmt.wind(landWindComp.headKt)} headwind` : `${fmt.wind(-landWindComp.headKt)} tailwind`}</span>, <span className="font-medium">{fmt.wind(landWindComp.crossKt)} crosswind{landWindComp.crossFrom ? ` from the ${landWindComp.crossFrom==='L' ? 'left' : 'right'}` : ''}</span>
+                  {windObs?.gustKt != null && <> (gusts: {landWindComp.gustHeadKt >= 0 ? `${fmt.wind(landWindComp.gustHeadKt)} head` : `${fmt.wind(-landWindComp.gustHeadKt)} tail`}, {fmt.wind(landWindComp.gustCrossKt)} cross)</>}
+                </div>
+              )}
+              {hasInputs && (
+                <DistanceBreakdown
+                  steps={[{ label: 'Baseline (sea-level/std day)', ft: baseFt }, { label: `Density altitude (${PERF_MODE_LABELS[kochModel]}, ${fmt.alt(r.densityAltitudeFt)}; +5%/1000 ft)`, factor: daFactor, ft: uncorrectedFt }]}
+                  corrections={corrections} startFt={baseFt} totalFt={requiredFt} fmt={fmt} />
+              )}
+              <div>Estimated Required Landing Distance: <span className="font-medium">{fmt.dist(requiredFt)}</span></div>
+              <div>Landing Margin: <span className={`font-medium ${ok ? 'text-emerald-600' : 'text-rose-600'}`}>{ok?'+':''}{fmt.dist(marginFt)}</span></div>
+              {(hasInputs && !ok) && <div className="text-xs text-rose-600">Warning: Estimated landing distance exceeds landing distance available.</div>}
+              {xwExceeded && <div className="text-xs text-rose-600">Warning: {windObs?.gustKt != null ? 'Gusting crosswind' : 'Crosswind'} of {fmt.wind(landWindComp!.gustCrossKt)} exceeds max demonstrated crosswind ({fmt.wind(xwLimit)}).</div>}
+              {tailKt > 10 && <div className="text-xs text-rose-600">Warning: Tailwind of {fmt.wind(tailKt)} exceeds the {fmt.wind(10)} typically covered by POH corrections.</div>}
+              <RunwayGraphic rwFt={rwFt} requiredFt={requiredFt} ok={ok} overByFt={overByFt} pctUsed={pctUsed} runway={landRunway} wind={windObs} usageLabel="Landing distance" fmt={fmt} />
             </div>
           );
         })()}
       </section>
 
+      {/* Multi-airport Comparison */}
+      <section className="mb-4 p-4 rounded-2xl shadow-sm bg-white">
+        <h2 className="mb-1 text-lg font-semibold">Route Comparison</h2>
+        <p className="mb-2 text-xs text-slate-500">Departure, destination and alternates side by side, using the model, aircraft and correction settings above. Each station uses its longest runway from the end with the most headwind unless you pick one.</p>
+        <div className="flex flex-col gap-2 sm:flex-row">
+          <input className="w-full rounded border p-2" value={compareText} onChange={(e)=>setCompareText(e.target.value)} onKeyDown={(e)=>{ if (e.key==='Enter') onSetCompareStations(); }} placeholder="Stations, e.g., KSMO KVNY KCMA" />
+          <button className="rounded border px-3 py-2 text-sm" onClick={onSetCompareStations}>Set Stations</button>
+          <button className="rounded bg-slate-900 px-3 py-2 text-white text-sm" disabled={!compareEntries.length} onClick={fetchCompareAll}>Fetch All METARs</button>
+        </div>
+        {compareEntries.length > 0 && (
+          <div className="mt-3 grid gap-2">
+            {compareEntries.map(e => {
+              const ap = lookupAirport(airportDb, e.station);
+              return (
+                <div key={e.station} className="grid gap-2 text-sm md:grid-cols-[5rem_1fr_14rem_auto] md:items-center">
+                  <div className="font-medium">{e.station}</div>
+                  <input className="w-full rounded border p-2 font-mono text-xs" value={e.raw} onChange={(ev)=>updateCompareEntry(e.station, { raw: ev.target.value })} placeholder="Paste METAR or fetch" />
+                  <select className="rounded border px-2 py-2 text-xs" value={e.runwayKey} onChange={(ev)=>updateCompareEntry(e.station, { runwayKey: ev.target.value })} disabled={!ap?.runways.length}>
+                    <option value="">{ap ? 'Longest runway' : 'Not in airport database'}</option>
+                    {ap && runwayChoices(ap).map(c => <option key={`${c.index}:${c.end}`} value={`${c.index}:${c.end}`}>{c.ident.ident} — {fmt.dist(c.runway.lengthFt)}</option>)}
+                  </select>
+                  <div className="flex gap-2">
+                    <button className="rounded border px-2 py-1 text-xs" onClick={()=>fetchCompareEntry(e.station)}>Fetch</button>
+                    <button className="rounded border px-2 py-1 text-xs" onClick={()=>setCompareEntries(list => list.filter(x => x.station!==e.station))}>Remove</button>
+                  </div>
+                  {(!ap || ap.elevationFt==null || !runwayChoices(ap).length || e.elev || e.runwayLen) && (
+                    <div className="flex flex-wrap gap-2 md:col-span-4 md:col-start-2">
+                      <input className="w-32 rounded border p-1 text-xs" value={e.elev} onChange={(ev)=>updateCompareEntry(e.station, { elev: ev.target.value })} placeholder={`Elevation (${units.altitude})`} aria-label={`${e.station} field elevation (${units.altitude})`} />
+                      <input className="w-32 rounded border p-1 text-xs" value={e.runwayLen} onChange={(ev)=>updateCompareEntry(e.station, { runwayLen: ev.target.value })} placeholder={`Runway length (${units.distance})`} aria-label={`${e.station} runway length (${units.distance})`} />
+                      <input className={`w-32 rounded border p-1 text-xs ${e.runwayId.trim() && !parseRunwayIdent(e.runwayId) ? 'border-rose-400 bg-rose-50' : ''}`} value={e.runwayId} onChange={(ev)=>updateCompareEntry(e.station, { runwayId: ev.target.value.toUpperCase() })} placeholder="Runway (e.g., 27)" aria-label={`${e.station} runway designator or heading`} />
+                    </div>
+                  )}
+                  {e.status && <div className="text-xs text-slate-500 md:col-span-4">{e.status}</div>}
+                </div>
+              );
+            })}
+          </div>
+        )}
+        {comparison.length > 0 && (
+          <div className="mt-3 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-slate-500">
+                  {COMPARISON_COLUMNS.map(c => (
+                    <th key={c.key} className="cursor-pointer select-none py-1 pr-3" onClick={()=>onSortComparison(c.key)}>{c.label}{c.unit ? ` (${unitLabel(units, c.unit)})` : ''}{compareSort.key===c.key ? (compareSort.dir===1 ? ' ▲' : ' ▼') : ''}</th>
+                  ))}
+                  <th className="py-1 pr-3">Runway</th><th />
+                </tr>
+              </thead>
+              <tbody>
+                {comparison.map(({ entry, row: r }) => {
+                  const num = (v: number | null | undefined, u: 'ft'|'m') => v==null || !Number.isFinite(v) ? '–' : Math.round(fromFt(v, u)).toLocaleString('en-US');
+                  const kt = (v: number) => round(fromKt(v, units.wind));
+                  return (
+                    <tr key={entry.station} className="border-t">
+                      <td className="py-1 pr-3 font-medium">{r.station}</td>
+                      <td className={`pr-3 ${FLIGHT_CATEGORY_COLORS[r.category]}`}>{r.metar ? r.category : '–'}</td>
+                      <td className="pr-3">{num(r.daRotFt, units.altitude)}</td>
+                      <td className="pr-3">{num(r.daPreciseFt, units.altitude)}</td>
+                      <td className="pr-3">{num(r.result?.requiredFt, units.distance)}</td>
+                      <td className={`pr-3 font-medium ${r.result ? (r.result.ok ? 'text-emerald-600' : 'text-rose-600') : ''}`}>{r.result ? `${r.result.ok ? '+' : ''}${num(r.result.marginFt, units.distance)}` : '–'}</td>
+                      <td className="pr-3">{r.wind ? (r.wind.headKt >= 0 ? `${kt(r.wind.headKt)} head` : `${kt(-r.wind.headKt)} tail`) : '–'}</td>
+                      <td className="pr-3">{r.wind ? `${kt(r.wind.gustCrossKt)}${r.wind.crossFrom ? ` ${r.wind.crossFrom}` : ''}` : '–'}</td>
+                      <td className="pr-3">{r.runway ? `${r.runway.ident.ident} (${fmt.dist(r.runway.runway.lengthFt)})` : r.manualRunway ? `${r.manualRunway.ident?.ident ?? 'Rwy'} (${fmt.dist(r.manualRunway.lengthFt)}, entered)` : '–'}{r.error && <div className="text-xs text-amber-600">{r.error}</div>}</td>
+                      <td><button className="rounded border px-2 py-1 text-xs" disabled={!r.metar} onClick={()=>onOpenComparison(r)}>Open</button></td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {!compareAircraft.poh && !((compareAircraft.baselineFt ?? 0) > 0) && <div className="mt-1 text-xs text-slate-500">Enter a takeoff baseline or POH table above to compare required distances.</div>}
+          </div>
+        )}
+      </section>
+
+      {/* Calculation History */}
+      <section className="mb-4 p-4 rounded-2xl shadow-sm bg-white">
+        <h2 className="mb-1 text-lg font-semibold">Calculation History</h2>
+        <p className="mb-2 text-xs text-slate-500">Completed takeoff checks are logged in this browser (last {HISTORY_LIMIT}) a few seconds after the inputs settle. Load brings an entry back into the calculator.</p>
+        <div className="flex flex-col gap-2 text-sm sm:flex-row sm:items-end">
+          <label>Station
+            <input className="mt-1 w-full rounded border p-2 sm:w-32" value={historyFilter.station} onChange={(e)=>setHistoryFilter(f => ({ ...f, station: e.target.value }))} placeholder="e.g., KSMO" />
+          </label>
+          <label>From
+            <input className="mt-1 w-full rounded border p-2" type="date" value={historyFilter.from} onChange={(e)=>setHistoryFilter(f => ({ ...f, from: e.target.value }))} />
+          </label>
+          <label>To
+            <input className="mt-1 w-full rounded border p-2" type="date" value={historyFilter.to} onChange={(e)=>setHistoryFilter(f => ({ ...f, to: e.target.value }))} />
+          </label>
+          <button className="rounded border px-3 py-2 text-sm" disabled={!filteredHistory.length} onClick={()=>downloadText('climbcheck-history.csv', historyToCsv(filteredHistory), 'text/csv')}>Export CSV</button>
+          <button className="rounded border px-3 py-2 text-sm" disabled={!filteredHistory.length} onClick={()=>downloadText('climbcheck-history.json', JSON.stringify({ version: 1, entries: filteredHistory }, null, 2), 'application/json')}>Export JSON</button>
+          <button className="rounded border px-3 py-2 text-sm" disabled={!history.length} onClick={()=>{ if (window.confirm('Delete the whole calculation history?')) setHistory([]); }}>Clear All</button>
+        </div>
+        {filteredHistory.length ? (
+          <div className="mt-3 max-h-96 overflow-auto">
+            <table className="w-full text-sm">
+              <thead><tr className="text-left text-xs text-slate-500"><th className="py-1 pr-3">Time</th><th className="pr-3">Station</th><th className="pr-3">Model</th><th className="pr-3">DA RoT / Precise ({units.altitude})</th><th className="pr-3">Required ({units.distance})</th><th className="pr-3">Margin ({units.distance})</th><th /></tr></thead>
+              <tbody>
+                {filteredHistory.map(e => (
+                  <tr key={e.id} className="border-t" title={e.metar}>
+                    <td className="py-1 pr-3 whitespace-nowrap">{new Date(e.atMs).toLocaleString()}</td>
+                    <td className="pr-3 font-medium">{e.station || '–'}{e.runway ? ` ${e.runway}` : ''}</td>
+                    <td className="pr-3">{e.model}{e.forecastAtMs!=null ? ` (TAF ${formatDayTimeZ(e.forecastAtMs)})` : ''}</td>
+                    <td className="pr-3">{e.daRotFt!=null ? Math.round(fromFt(e.daRotFt, units.altitude)) : '–'} / {e.daPreciseFt!=null ? Math.round(fromFt(e.daPreciseFt, units.altitude)) : '–'}</td>
+                    <td className="pr-3">{Math.round(fromFt(e.requiredFt, units.distance))}{e.requiredWithMarginFt!=null && Math.round(e.requiredWithMarginFt)!==Math.round(e.requiredFt) ? ` (${Math.round(fromFt(e.requiredWithMarginFt, units.distance))} with margin)` : ''} of {Math.round(fromFt(e.runwayFt, units.distance))}</td>
+                    <td className={`pr-3 font-medium ${e.ok ? 'text-emerald-600' : 'text-rose-600'}`}>{e.ok ? '+' : ''}{Math.round(fromFt(e.marginFt, units.distance))}</td>
+                    <td className="whitespace-nowrap">
+                      <button className="rounded border px-2 py-1 text-xs" onClick={()=>onLoadHistory(e)}>Load</button>
+                      <button className="ml-1 rounded border px-2 py-1 text-xs" onClick={()=>setHistory(list => list.filter(x => x.id!==e.id))}>Delete</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : <div className="mt-2 text-xs text-slate-500">{history.length ? 'No entries match the filter.' : 'No calculations logged yet.'}</div>}
+      </section>
+
       {/* Performance Models Explained + Advanced Graph toggle */}
       <section className="mb-4 p-4 rounded-2xl shadow-sm bg-white">
         <h2 className="mb-1 text-lg font-semibold">Performance Models Explained</h2>
@@ -407,6 +1657,11 @@ export default function App(){
                 <td className="px-3 py-2 align-top">DA ≈ PA + 120×(OAT−ISA)<br/>ΔTO = +15% / 1000 ft DA<br/>ΔROC = −7.5% / 1000 ft DA</td>
                 <td className="px-3 py-2 align-top">Fast cockpit estimate using density altitude only; good intuition, less precise.</td>
               </tr>
+              <tr className="bg-white">
+                <td className="px-3 py-2 font-medium">POH Table</td>
+                <td className="px-3 py-2 align-top">Bilinear interpolation in PA × OAT, linear in weight</td>
+                <td className="px-3 py-2 align-top">Uses your aircraft's published takeoff grid directly; shown next to a Precise-DA Koch estimate. Outside the grid values are extrapolated and flagged.</td>
+              </tr>
             </tbody>
           </table>
         </div>
@@ -416,8 +1671,9 @@ export default function App(){
             {showGraph ? 'Hide Performance Graph' : 'Show Performance Graph (Advanced)'}
           </button>
           {showGraph && (
-            <div className="mt-4">
-              <KochGraph paFt={nz(parsedPA)} tempC={isFinite(parsedTempC)?parsedTempC:15} fieldElevFt={fieldElevFt} mode={kochMode} dewC={dewExactC} />
+            <div className={`mt-4 grid gap-4 ${climb ? 'lg:grid-cols-2' : ''}`}>
+              <KochGraph paFt={nz(parsedPA)} tempC={isFinite(parsedTempC)?parsedTempC:15} fieldElevFt={fieldElevFt} mode={kochMode} dewC={dewExactC} poh={pohTable ? { table: pohTable, weightLb: takeoffWeightLb, basis: pohBasis } : null} limitTempC={limits && limits.maxOat.limit==null ? limits.maxOat.value : null} fmt={fmt} />
+              {climb && <ClimbProfileGraph gradientFtPerNm={climb.gradientFtPerNm} heightAtDerFt={climb.heightAtDerFt} requiredFtPerNm={climb.requiredFtPerNm} obstacle={climb.obstacle} fmt={fmt} />}
             </div>
           )}
         </div>
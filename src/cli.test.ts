@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { runCli } from "./cli";
+
+const METAR = "METAR KLXV 191853Z 27012G18KT 10SM CLR 24/M02 A3012";
+
+describe("climbcheck CLI", () => {
+  it("takes conditions from the METAR and reports a fit", () => {
+    const { code, output } = runCli(["--metar", METAR, "--elev", "9934", "--runway", "11200", "--runway-id", "34", "--baseline", "1200"]);
+    expect(code).toBe(0);
+    expect(output).toContain("ClimbCheck — KLXV (precise)");
+    expect(output).toContain("Pressure altitude   9,734 ft");
+    expect(output).toMatch(/→ OK$/m);
+  });
+  it("emits JSON with flags overriding the METAR", () => {
+    const { code, output } = runCli(["--metar", METAR, "--temp", "30", "--elev", "5045", "--pa", "6000", "--runway", "1400m", "--baseline", "1200", "--model", "legacy", "--json"]);
+    const { input, result } = JSON.parse(output);
+    expect(code).toBe(0);
+    expect(input).toMatchObject({ station: "KLXV", model: "legacy", tempC: 30, paFt: 6000 });
+    expect(input.runwayFt).toBeCloseTo(4593.18, 2);
+    expect(result.densityAltitudeFt.ruleOfThumb).toBeCloseTo(8998.69, 2);
+    expect(result.kochFactor).toBeCloseTo(2.1248, 4);
+  });
+  it("exits 1 when the required distance exceeds the runway", () => {
+    const { code, output } = runCli(["--elev", "5000", "--pa", "5000", "--temp", "30", "--runway", "2000", "--baseline", "1200"]);
+    expect(code).toBe(1);
+    expect(output).toContain("EXCEEDS RUNWAY");
+  });
+  it("reads a POH table from a file", () => {
+    const csv = "pa_ft,oat_c,ground_roll_ft,over_50_ft\n0,0,800,1400\n0,40,1000,1700\n4000,0,1000,1750\n4000,40,1300,2150\n";
+    const { code, output } = runCli(["--elev", "2000", "--pa", "2000", "--temp", "20", "--runway", "3000", "--poh", "table.csv", "--json"], () => csv);
+    expect(code).toBe(0);
+    expect(JSON.parse(output).result.uncorrectedFt).toBeCloseTo(1750, 6);
+  });
+  it("exits 2 with usage on bad or missing input", () => {
+    expect(runCli(["--elev", "x"]).code).toBe(2);
+    expect(runCli(["--elev", "100", "--runway", "3000", "--temp", "15", "--pa", "100"]).output).toContain("--baseline or --poh is required");
+    expect(runCli(["--bogus"]).code).toBe(2);
+    expect(runCli(["--help"])).toMatchObject({ code: 0 });
+  });
+});
@@ -0,0 +1,129 @@
+#!/usr/bin/env node
+/********************
+ * ClimbCheck CLI — the takeoff calculation from the command line, for scripts and planning pipelines.
+ * Exit status: 0 fits the runway, 1 exceeds it, 2 bad or missing input.
+ ********************/
+import { readFileSync } from "node:fs";
+import { pathToFileURL } from "node:url";
+import { parseArgs } from "node:util";
+import {
+  round, decodeMetar, pressureAltitudeFromAltimeterFt, hpaToInHg, parseRunwayIdent, parsePohTable, calculateTakeoff, SURFACE_FACTORS,
+} from "./core";
+import type { KochModel, SurfaceCondition, TakeoffResult, WindObs } from "./core";
+
+const USAGE = `Usage: climbcheck --elev <ft> --runway <length> (--baseline <length> | --poh <file>) [options]
+
+Conditions (flags override values decoded from --metar):
+  --metar <raw>         METAR to take OAT, dewpoint, altimeter and wind from
+  --temp <°C>           outside air temperature
+  --dew <°C>            dewpoint (Precise model)
+  --pa <ft>             pressure altitude
+  --altimeter <inHg>    altimeter setting; --qnh <hPa> alternatively
+  --wind <group>        wind as in a METAR, e.g. 27015G25KT
+  --runway-id <rwy>     runway designator or heading for wind components (e.g. 27L, 268)
+
+Aircraft and runway:
+  --elev <ft>           field elevation
+  --runway <length>     runway length available, ft or with an "m" suffix (e.g. 1400m)
+  --baseline <length>   sea-level ISA takeoff distance from the POH
+  --poh <file>          POH takeoff table (CSV or JSON) instead of --baseline
+  --poh-basis <basis>   over50 (default) or groundRoll
+  --model <model>       precise (default), legacy or rot
+  --surface <cond>      ${Object.keys(SURFACE_FACTORS).join(", ")}
+  --slope <%>           runway slope, positive uphill
+  --weight <lb>         takeoff weight; --ref-weight <lb> for the baseline's weight
+  --margin <%>          safety margin added to the required distance
+
+Output:
+  --json                machine-readable result
+  -h, --help            show this help`;
+
+const OPTIONS = {
+  metar: { type: "string" }, temp: { type: "string" }, dew: { type: "string" }, pa: { type: "string" }, altimeter: { type: "string" }, qnh: { type: "string" },
+  wind: { type: "string" }, "runway-id": { type: "string" }, elev: { type: "string" }, runway: { type: "string" }, baseline: { type: "string" },
+  poh: { type: "string" }, "poh-basis": { type: "string" }, model: { type: "string" }, surface: { type: "string" }, slope: { type: "string" },
+  weight: { type: "string" }, "ref-weight": { type: "string" }, margin: { type: "string" }, json: { type: "boolean" }, help: { type: "boolean", short: "h" },
+} as const;
+
+class UsageError extends Error {}
+
+function num(name: string, v: string | undefined): number | null {
+  if (v==null) return null; const n = Number(v);
+  if (v.trim()==='' || !isFinite(n)) throw new UsageError(`--${name} must be a number (got "${v}")`);
+  return n;
+}
+function lengthFt(name: string, v: string | undefined): number | null {
+  if (v==null) return null; const m = v.trim().match(/^(-?\d+(?:\.\d+)?)\s*(ft|m)?$/i);
+  if (!m) throw new UsageError(`--${name} must be a length in ft, or metres with an "m" suffix (got "${v}")`);
+  return m[2]?.toLowerCase()==='m' ? Number(m[1]) / 0.3048 : Number(m[1]);
+}
+
+function formatText(r: TakeoffResult, c: { station: string | null; model: KochModel; paFt: number; tempC: number; dewC: number | null; runwayFt: number; marginPct: number }){
+  const ft = (v: number) => `${Math.round(v).toLocaleString("en-US")} ft`;
+  const w = r.windComponents;
+  const lines = [
+    `ClimbCheck${c.station ? ` — ${c.station}` : ''} (${c.model})`,
+    `Pressure altitude   ${ft(c.paFt)}`,
+    `OAT / dewpoint      ${round(c.tempC,1)} °C / ${c.dewC!=null ? `${round(c.dewC,1)} °C` : '–'}`,
+    `Density altitude    ${ft(r.densityAltitudeFt.model)} (rule-of-thumb ${ft(r.densityAltitudeFt.ruleOfThumb)}, precise ${ft(r.densityAltitudeFt.precise)})`,
+    `Model factor        ×${round(r.kochFactor,3)}; climb −${round(r.climbLossPct,1)}%`,
+    ...(w ? [`Wind                ${w.headKt >= 0 ? `${round(w.headKt)} kt head` : `${round(Math.max(-w.headKt, -w.gustHeadKt))} kt tail`}, ${round(w.gustCrossKt)} kt cross${w.crossFrom ? ` from ${w.crossFrom}` : ''}`] : []),
+    `Corrections         ×${round(r.correctionFactor,3)} (${r.corrections.filter(l => l.enabled).map(l => `${l.label.toLowerCase()} ×${round(l.factor,3)}`).join(', ') || 'none'})`,
+    `Required distance   ${ft(r.requiredFt)}${c.marginPct > 0 ? ` (${ft(r.requiredWithMarginFt)} with ${c.marginPct}% margin)` : ''}`,
+    `Runway              ${ft(c.runwayFt)} — ${r.ok ? `${ft(r.marginFt)} to spare` : `short by ${ft(-r.marginFt)}`}, ${round(r.pctUsed)}% used → ${r.ok ? 'OK' : 'EXCEEDS RUNWAY'}`,
+    `Limits              max OAT ${r.limits.maxOatC.limit==='none' ? 'none (does not fit)' : r.limits.maxOatC.limit==='range' ? '> 60 °C' : `${round(r.limits.maxOatC.value,1)} °C`}, max PA ${r.limits.maxPaFt.limit==='none' ? 'none (does not fit)' : r.limits.maxPaFt.limit==='range' ? '> 30,000 ft' : ft(r.limits.maxPaFt.value)}`,
+    ...r.pohWarnings.map(w => `Warning: ${w}`),
+  ];
+  return lines.join('\n');
+}
+
+export function runCli(argv: string[], readFile: (path: string) => string = (p) => readFileSync(p, "utf8")): { code: number; output: string } {
+  try {
+    const { values: o } = parseArgs({ args: argv, options: OPTIONS, strict: true, allowPositionals: false });
+    if (o.help) return { code: 0, output: USAGE };
+    const metar = o.metar ? decodeMetar(o.metar) : null;
+    const model = (o.model ?? 'precise') as KochModel;
+    if (!['precise','legacy','rot'].includes(model)) throw new UsageError(`--model must be precise, legacy or rot (got "${o.model}")`);
+    const surface = (o.surface ?? 'paved-dry') as SurfaceCondition;
+    if (!(surface in SURFACE_FACTORS)) throw new UsageError(`--surface must be one of ${Object.keys(SURFACE_FACTORS).join(', ')}`);
+    const basis = o["poh-basis"] ?? 'over50';
+    if (basis!=='over50' && basis!=='groundRoll') throw new UsageError(`--poh-basis must be over50 or groundRoll`);
+
+    const fieldElevFt = num('elev', o.elev); if (fieldElevFt==null) throw new UsageError('--elev is required');
+    const runwayFt = lengthFt('runway', o.runway); if (runwayFt==null || !(runwayFt > 0)) throw new UsageError('--runway is required');
+    const tempC = num('temp', o.temp) ?? metar?.tempC?.value ?? null; if (tempC==null) throw new UsageError('OAT needed: --temp or a --metar with a temperature group');
+    const dewC = num('dew', o.dew) ?? metar?.dewC?.value ?? null;
+    const qnh = num('qnh', o.qnh); const altInHg = num('altimeter', o.altimeter) ?? (qnh!=null ? hpaToInHg(qnh) : null) ?? metar?.altimeter?.value.inHg ?? null;
+    const paFt = num('pa', o.pa) ?? (altInHg!=null ? pressureAltitudeFromAltimeterFt(fieldElevFt, altInHg) : null);
+    if (paFt==null) throw new UsageError('Pressure altitude needed: --pa, --altimeter, --qnh or a --metar with an altimeter group');
+
+    let wind: WindObs | null = metar?.wind?.value ?? null;
+    if (o.wind){ const w = decodeMetar(o.wind, { bodyOnly: true }).wind; if (!w) throw new UsageError(`--wind must look like 27015KT or 27015G25KT (got "${o.wind}")`); wind = w.value; }
+    const rwy = o["runway-id"]!=null ? parseRunwayIdent(o["runway-id"]) : null;
+    if (o["runway-id"]!=null && !rwy) throw new UsageError(`--runway-id must be a designator (e.g. 27L) or a 3-digit heading (got "${o["runway-id"]}")`);
+
+    const baselineFt = lengthFt('baseline', o.baseline);
+    let poh = null;
+    if (o.poh){ const { table, error } = parsePohTable(readFile(o.poh)); if (!table) throw new UsageError(`--poh: ${error ?? 'could not read table'}`); poh = { table, basis: basis as 'over50'|'groundRoll' }; }
+    if (!poh && !(baselineFt!=null && baselineFt > 0)) throw new UsageError('--baseline or --poh is required');
+
+    const marginPct = num('margin', o.margin) ?? 0;
+    const result = calculateTakeoff({
+      paFt, tempC, dewC, fieldElevFt, runwayFt, model, baselineFt, poh, wind, runwayHeadingDeg: rwy?.headingDeg ?? null,
+      surface, slopePct: num('slope', o.slope), weightLb: num('weight', o.weight), refWeightLb: num('ref-weight', o["ref-weight"]), safetyMarginPct: marginPct,
+    });
+    const code = result.ok ? 0 : 1;
+    if (o.json) return { code, output: JSON.stringify({ input: { station: metar?.station ?? null, model, fieldElevFt, paFt, tempC, dewC, runwayFt, runway: rwy?.ident ?? null, wind, baselineFt, poh: !!poh, surface }, result }, null, 2) };
+    return { code, output: formatText(result, { station: metar?.station ?? null, model, paFt, tempC, dewC, runwayFt, marginPct }) };
+  } catch (e) {
+    if (e instanceof UsageError || (e as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')) return { code: 2, output: `climbcheck: ${(e as Error).message}\n\n${USAGE}` };
+    if ((e as { code?: string }).code==='ENOENT') return { code: 2, output: `climbcheck: ${(e as Error).message}` };
+    throw e;
+  }
+}
+
+if (process.argv[1] && import.meta.url===pathToFileURL(process.argv[1]).href){
+  const { code, output } = runCli(process.argv.slice(2));
+  (code===2 ? console.error : console.log)(output);
+  process.exit(code);
+}
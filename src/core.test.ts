@@ -0,0 +1,338 @@
+import { describe, expect, it } from "vitest";
+import {
+  preciseDensityAltitudeFt, densityAltitudeRuleOfThumbFt, densityAltitudeFt, kochTakeoffFactor, kochClimbLossPct, rocLossPct, pressureAltitudeFromAltimeterFt,
+  decodeMetar, flightCategory, decodeTaf, tafConditionsAt, interpolateTempC, metarAgeMinutes, extractMetarText, extractTafText,
+  parseRunwayIdent, windComponents, windDistanceFactor, leastFavourableWind, buildAirportDb, lookupAirport, runwayEndIdent, parseCsv, toCsv,
+  parsePohTable, pohLookup, takeoffSlopeFactor, landingSlopeFactor, weightFactor, combineCorrections, SURFACE_FACTORS,
+  tasFromIasKt, climbGradient, solveMonotonicMax, calculateTakeoff, calculateLanding, assessMinimums, EMPTY_MINIMUMS,
+  preferredRunwayEnd, compareStation, normalizeHistoryEntry, historyToCsv, unitFormat, normalizeUnitPrefs, toFt, toC, toInHg, toKt, fromKt, convertUnits, UNIT_PRESETS,
+} from "./core";
+
+describe("density altitude models", () => {
+  it("precise DA is zero at sea-level ISA and rises with heat and humidity", () => {
+    expect(preciseDensityAltitudeFt(0, 15, null)).toBeCloseTo(0, 0);
+    expect(preciseDensityAltitudeFt(5000, 30, null)).toBeCloseTo(7800.5, 1);
+    expect(preciseDensityAltitudeFt(5000, 30, 20)).toBeCloseTo(8140.7, 1);
+  });
+  it("rule-of-thumb DA adds 120 ft per °C above ISA at the field", () => {
+    expect(densityAltitudeRuleOfThumbFt(5000, 30, 5000)).toBeCloseTo(7988, 6);
+    expect(densityAltitudeFt('rot', 5000, 30, 5000)).toBe(densityAltitudeFt('legacy', 5000, 30, 5000));
+    expect(densityAltitudeFt('precise', 5000, 30, 5000, 20)).toBe(preciseDensityAltitudeFt(5000, 30, 20));
+  });
+  it("pressure altitude follows the altimeter setting", () => {
+    expect(pressureAltitudeFromAltimeterFt(1000, 29.92)).toBeCloseTo(1000, 6);
+    expect(pressureAltitudeFromAltimeterFt(1000, 30.12)).toBeCloseTo(800, 6);
+  });
+});
+
+describe("Koch factors", () => {
+  it("takeoff distance: +15% per 1000 ft, Legacy +12.5%", () => {
+    expect(kochTakeoffFactor(0, 'precise')).toBe(1);
+    expect(kochTakeoffFactor(4000, 'precise')).toBeCloseTo(1.6, 10);
+    expect(kochTakeoffFactor(4000, 'rot')).toBeCloseTo(1.6, 10);
+    expect(kochTakeoffFactor(4000, 'legacy')).toBeCloseTo(1.5, 10);
+  });
+  it("climb loss: −7.5% ROC per 1000 ft floored at 100%, Legacy 9.6% power", () => {
+    expect(kochClimbLossPct(5000, 'precise')).toBeCloseTo(37.5, 10);
+    expect(kochClimbLossPct(20000, 'precise')).toBe(100);
+    expect(kochClimbLossPct(5000, 'legacy')).toBeCloseTo(48, 10);
+    expect(rocLossPct(5000)).toBe(kochClimbLossPct(5000, 'precise'));
+  });
+});
+
+describe("units", () => {
+  it("converts entered values to the calculation units", () => {
+    expect(toFt(1000, 'm')).toBeCloseTo(3280.84, 2);
+    expect(toC(59, 'F')).toBeCloseTo(15, 10);
+    expect(toInHg(1013.25, 'hPa')).toBeCloseTo(29.921, 3);
+    expect(toKt(10, 'mps')).toBeCloseTo(19.44, 2);
+    expect(fromKt(toKt(25, 'kmh'), 'kmh')).toBeCloseTo(25, 10);
+    expect(convertUnits(1013, 'pressure', UNIT_PRESETS.metric, UNIT_PRESETS.imperial)).toBeCloseTo(29.91, 2);
+    expect(convertUnits(100, 'distance', UNIT_PRESETS.imperial, UNIT_PRESETS.metric)).toBeCloseTo(30.48, 10);
+  });
+  it("formats values in the preferred units", () => {
+    const f = unitFormat(UNIT_PRESETS.metric);
+    expect([f.alt(5000), f.dist(3000), f.temp(15), f.tempDelta(10), f.press(29.92), f.wind(20)]).toEqual(['1524 m', '914 m', '15 °C', '10 °C', '1013 hPa', '10 m/s']);
+    const i = unitFormat(UNIT_PRESETS.imperial);
+    expect([i.temp(15), i.tempDelta(10), i.press(29.92), i.alt(NaN)]).toEqual(['59 °F', '18 °F', '29.92 inHg', '– ft']);
+  });
+  it("words POH extrapolation warnings in the preferred units", () => {
+    const { table } = parsePohTable('pa_ft,oat_c,ground_roll_ft\n0,0,800\n0,20,900\n4000,0,1000\n4000,20,1150\n');
+    expect(pohLookup(table!, 6000, 30, null, unitFormat(UNIT_PRESETS.metric)).warnings).toEqual([
+      'Pressure altitude 1829 m is outside the table (0 m–1219 m); value extrapolated.',
+      'OAT 30 °C is outside the table (0 °C–20 °C); value extrapolated.',
+    ]);
+    expect(pohLookup(table!, 6000, 30, null, unitFormat(UNIT_PRESETS.imperial)).warnings[1]).toBe('OAT 86 °F is outside the table (32 °F–68 °F); value extrapolated.');
+  });
+  it("falls back to the defaults for unknown preferences", () => {
+    expect(normalizeUnitPrefs({ altitude: 'm', wind: 'furlongs' })).toEqual({ altitude: 'm', distance: 'ft', pressure: 'inHg', temperature: 'C', wind: 'kt' });
+  });
+});
+
+describe("METAR decoding", () => {
+  it("decodes a US METAR with the remarks temperature group", () => {
+    const m = decodeMetar("METAR KSMO 191853Z 27012G18KT 240V300 1 1/2SM -RA BR BKN008 OVC015 18/16 A2992 RMK AO2 T01830161");
+    expect(m.station).toBe("KSMO");
+    expect(m.time?.value).toEqual({ day: 19, hour: 18, minute: 53 });
+    expect(m.wind?.value).toMatchObject({ dirDeg: 270, speedKt: 12, gustKt: 18, varFromDeg: 240, varToDeg: 300 });
+    expect(m.visibility?.value.sm).toBeCloseTo(1.5, 6);
+    expect(m.weather.map(w => w.token)).toEqual(["-RA", "BR"]);
+    expect(m.tempC).toMatchObject({ value: 18.3, source: 'remarks' });
+    expect(m.dewC?.value).toBeCloseTo(16.1, 6);
+    expect(m.altimeter?.value.inHg).toBe(29.92);
+    expect(m.unrecognized).toEqual([]);
+    expect(flightCategory(m)).toBe('IFR');
+  });
+  it("decodes ICAO units: QNH, metres and CAVOK", () => {
+    const m = decodeMetar("LFLJ 191830Z 05005MPS CAVOK M02/M08 Q1028 NOSIG");
+    expect(m.wind?.value.speedKt).toBeCloseTo(9.72, 2);
+    expect(m.visibility?.value.cavok).toBe(true);
+    expect(m.tempC?.value).toBe(-2);
+    expect(m.altimeter?.value).toMatchObject({ hPa: 1028, unit: 'Q' });
+    expect(m.trend).toBe("NOSIG");
+    expect(flightCategory(m)).toBe('VFR');
+  });
+  it("dates a report against the current month", () => {
+    expect(metarAgeMinutes({ day: 19, hour: 18, minute: 53 }, new Date(Date.UTC(2026, 9, 19, 20, 0)))).toBe(67);
+    expect(metarAgeMinutes({ day: 31, hour: 23, minute: 50 }, new Date(Date.UTC(2026, 10, 1, 0, 10)))).toBe(20);
+  });
+});
+
+describe("TAF decoding", () => {
+  const raw = `TAF AMD KSMO 191720Z 1918/2018 25010KT P6SM FEW045 TX28/1922Z TN14/2012Z
+      FM192200 27015G25KT P6SM SCT060
+      TEMPO 1923/2002 4SM -SHRA BKN030
+      BECMG 2003/2005 VRB03KT NSW
+      PROB30 TEMPO 2010/2014 2SM BR OVC008`;
+  const taf = decodeTaf(raw, Date.UTC(2026, 9, 19, 18))!;
+  const at = (day: number, hour: number) => Date.UTC(2026, 9, day, hour);
+  it("reads the header, change groups and temperature extremes", () => {
+    expect(taf).toMatchObject({ station: "KSMO", amended: true, issuedMs: Date.UTC(2026, 9, 19, 17, 20), validFromMs: at(19, 18), validToMs: at(20, 18) });
+    expect(taf.groups.map(g => [g.change, g.probability, g.fromMs, g.toMs])).toEqual([
+      ['BASE', null, at(19, 18), at(19, 22)], ['FM', null, at(19, 22), at(20, 18)], ['TEMPO', null, at(19, 23), at(20, 2)],
+      ['BECMG', null, at(20, 3), at(20, 5)], ['PROB', 30, at(20, 10), at(20, 14)],
+    ]);
+    expect(taf.temps).toEqual([{ kind: 'max', tempC: 28, atMs: at(19, 22), token: 'TX28/1922Z' }, { kind: 'min', tempC: 14, atMs: at(20, 12), token: 'TN14/2012Z' }]);
+    expect(taf.groups.every(g => g.unrecognized.length===0)).toBe(true);
+  });
+  it("applies FM and BECMG to the prevailing conditions and lists TEMPO/PROB in force", () => {
+    expect(tafConditionsAt(taf, at(19, 19)).prevailing.wind?.speedKt).toBe(10);
+    const evening = tafConditionsAt(taf, at(20, 0));
+    expect(evening.prevailing.wind).toMatchObject({ dirDeg: 270, gustKt: 25 });
+    expect(evening.temporary.map(g => g.change)).toEqual(['TEMPO']);
+    const night = tafConditionsAt(taf, at(20, 11));
+    expect(night.prevailing.wind).toMatchObject({ dirDeg: null, speedKt: 3 });
+    expect(night.prevailing.weather).toEqual([]);
+    expect(night.temporary.map(g => g.probability)).toEqual([30]);
+  });
+  it("interpolates temperature between anchors and holds it beyond them", () => {
+    const anchors = [{ atMs: 0, tempC: 10 }, { atMs: 10, tempC: 20 }];
+    expect(interpolateTempC(anchors, 5)).toBe(15);
+    expect(interpolateTempC(anchors, -5)).toBe(10);
+    expect(interpolateTempC(anchors, 50)).toBe(20);
+    expect(interpolateTempC([], 5)).toBeNull();
+  });
+  it("extracts reports from raw and XML provider responses", () => {
+    expect(extractTafText(`${raw}\nTAF KLAX 191720Z 1918/2024 00000KT P6SM SKC`, 'KSMO')).toMatch(/^TAF AMD KSMO .* PROB30 TEMPO 2010\/2014 2SM BR OVC008$/);
+    expect(extractMetarText('<response><raw_text>KSMO 191853Z 25010KT 10SM CLR 22/10 A2992</raw_text></response>', 'KSMO')).toBe('KSMO 191853Z 25010KT 10SM CLR 22/10 A2992');
+    expect(extractMetarText('<!DOCTYPE html><html></html>', 'KSMO')).toBeNull();
+  });
+});
+
+describe("wind components", () => {
+  it("parses runway designators and headings", () => {
+    expect(parseRunwayIdent("27L")).toEqual({ headingDeg: 270, ident: "27L", recipIdent: "09R" });
+    expect(parseRunwayIdent("268")?.headingDeg).toBe(268);
+    expect(parseRunwayIdent("37")).toBeNull();
+  });
+  it("resolves steady and gust components", () => {
+    const c = windComponents({ dirDeg: 300, speedKt: 20, gustKt: 30 }, 270);
+    expect(c.headKt).toBeCloseTo(17.32, 2);
+    expect(c.gustCrossKt).toBeCloseTo(15, 6);
+    expect(c.crossFrom).toBe('R');
+  });
+  it("credits 10% per 9 kt headwind and penalises 10% per 2 kt tailwind", () => {
+    expect(windDistanceFactor(windComponents({ dirDeg: 270, speedKt: 9, gustKt: null }, 270))).toBeCloseTo(0.9, 10);
+    expect(windDistanceFactor(windComponents({ dirDeg: 90, speedKt: 4, gustKt: null }, 270))).toBeCloseTo(1.2, 10);
+  });
+  it("picks the least favourable of several winds", () => {
+    const head = { dirDeg: 270, speedKt: 10, gustKt: null }, tail = { dirDeg: 90, speedKt: 5, gustKt: null };
+    expect(leastFavourableWind([head, tail], 270)).toBe(tail);
+    expect(leastFavourableWind([head, null], 270)).toBe(head);
+  });
+});
+
+describe("airport database", () => {
+  const airports = 'ident,type,name,elevation_ft,iso_country,municipality,gps_code,iata_code,local_code\nKSMO,small_airport,Santa Monica,177,US,Santa Monica,KSMO,SMO,SMO\n';
+  const runways = 'airport_ident,length_ft,width_ft,surface,lighted,closed,le_ident,le_heading_degT,le_elevation_ft,le_displaced_threshold_ft,he_ident,he_heading_degT,he_elevation_ft,he_displaced_threshold_ft\nKSMO,3500,100,ASP,1,0,03,32.5,150,,21,212.5,175,300\n';
+  const db = buildAirportDb(airports, runways);
+  it("looks airports up by ident, LID or IATA", () => {
+    expect(lookupAirport(db, 'ksmo')?.name).toBe('Santa Monica');
+    expect(lookupAirport(db, 'SMO')?.ident).toBe('KSMO');
+  });
+  it("writes CSV that parses back to the same cells", () => {
+    const csv = toCsv([['station', 'metar', 'margin'], ['KSMO', 'KSMO 191853Z 27012KT "odd", text', 812.5], ['KVNY', null, NaN]]);
+    expect(parseCsv(csv)).toEqual([['station', 'metar', 'margin'], ['KSMO', 'KSMO 191853Z 27012KT "odd", text', '812.5'], ['KVNY', '', '']]);
+  });
+  it("uses the dataset's true heading for each runway end", () => {
+    const rw = lookupAirport(db, 'KSMO')!.runways[0];
+    expect(runwayEndIdent(rw, 'he')).toEqual({ headingDeg: 212.5, ident: '21', recipIdent: '03' });
+    expect(rw.he.displacedThresholdFt).toBe(300);
+  });
+});
+
+describe("station comparison", () => {
+  const airports = 'ident,type,name,elevation_ft,iso_country,municipality,gps_code,iata_code,local_code\nKXYZ,small_airport,Test Field,5000,US,Test,KXYZ,,XYZ\n';
+  const runways = 'airport_ident,length_ft,width_ft,surface,lighted,closed,le_ident,le_heading_degT,le_elevation_ft,le_displaced_threshold_ft,he_ident,he_heading_degT,he_elevation_ft,he_displaced_threshold_ft\n'
+    + 'KXYZ,4000,75,TURF,0,0,09,90,,,27,270,,\nKXYZ,3000,100,ASP,1,0,18,180,,,36,360,,\n';
+  const ap = lookupAirport(buildAirportDb(airports, runways), 'KXYZ')!;
+  const aircraft = { model: 'precise' as const, baselineFt: 1000, surface: 'paved-dry' as const, applyWind: false, applySlope: false };
+  it("prefers the longest runway, from the end with the most headwind", () => {
+    expect(preferredRunwayEnd(ap, { dirDeg: 260, speedKt: 10, gustKt: null })?.ident.ident).toBe('27');
+    expect(preferredRunwayEnd(ap, null)?.ident.ident).toBe('09');
+  });
+  it("computes a row from the METAR and the airport elevation with the main aircraft settings", () => {
+    const row = compareStation('KXYZ', 'KXYZ 191853Z 27010KT 10SM CLR 30/M05 A2992', ap, null, aircraft);
+    expect(row.error).toBeNull();
+    expect(row.paFt).toBeCloseTo(5000, 6);
+    expect(row.daPreciseFt).toBeCloseTo(7861.7, 1);
+    expect(row.wind?.headKt).toBeCloseTo(10, 6);
+    expect(row.result?.corrections.find(l => l.key==='surface')?.factor).toBe(SURFACE_FACTORS['grass-dry'].takeoff);
+    expect(compareStation('KXYZ', row.metar!.raw, ap, '1:he', aircraft).result?.marginFt).toBeCloseTo(3000 - 1000 * kochTakeoffFactor(row.daPreciseFt!, 'precise'), 6);
+  });
+  it("reports what is missing", () => {
+    expect(compareStation('KXYZ', '', ap, null, aircraft).error).toBe('No METAR');
+    expect(compareStation('KABC', 'KABC 191853Z 27010KT 10SM CLR 30/M05 A2992', null, null, aircraft).error).toMatch(/elevation/);
+    expect(compareStation('KABC', 'KABC 191853Z 27010KT 10SM CLR 30/M05 A2992', null, null, aircraft, { elevationFt: 5000, runwayFt: null, runway: null }).error).toMatch(/runway/);
+  });
+  it("uses an entered elevation and runway for stations outside the database", () => {
+    const raw = 'KABC 191853Z 27010KT 10SM CLR 30/M05 A2992';
+    const row = compareStation('KABC', raw, null, null, aircraft, { elevationFt: 5000, runwayFt: 3500, runway: parseRunwayIdent('27') });
+    expect(row.error).toBeNull();
+    expect(row.manualRunway?.lengthFt).toBe(3500);
+    expect(row.wind?.headKt).toBeCloseTo(10, 6);
+    expect(row.result?.marginFt).toBeCloseTo(3500 - 1000 * kochTakeoffFactor(row.daPreciseFt!, 'precise'), 6);
+    expect(compareStation('KXYZ', raw, ap, null, aircraft, { elevationFt: 6000, runwayFt: null, runway: null }).paFt).toBeCloseTo(6000, 6);
+  });
+});
+
+describe("POH tables", () => {
+  const csv = 'pa_ft,oat_c,ground_roll_ft,over_50_ft\n0,0,800,1400\n0,20,900,1550\n0,40,1000,1700\n4000,0,1000,1750\n4000,20,1150,1950\n4000,40,1300,2150\n';
+  it("interpolates bilinearly in PA and OAT", () => {
+    const { table, error } = parsePohTable(csv);
+    expect(error).toBeNull();
+    const r = pohLookup(table!, 2000, 30, null);
+    expect(r.groundRollFt).toBeCloseTo(1087.5, 6);
+    expect(r.over50Ft).toBeCloseTo(1837.5, 6);
+    expect(r.warnings).toEqual([]);
+  });
+  it("warns when extrapolating", () => {
+    const r = pohLookup(parsePohTable(csv).table!, 6000, 20, null);
+    expect(r.groundRollFt).toBeCloseTo(1275, 6);
+    expect(r.warnings.length).toBe(1);
+  });
+  it("rejects JSON grids that do not match the axes", () => {
+    const axes = { paFt: [0, 4000], oatC: [0, 40] };
+    expect(parsePohTable(JSON.stringify({ ...axes, groundRollFt: [[800, 1000], [1000, 1300]] })).error).toMatch(/groundRollFt must be a 1 × 2 × 2/);
+    expect(parsePohTable(JSON.stringify({ ...axes, weightsLb: [2000, 2300, 2550], groundRollFt: [[[800, 1000], [1000, 1300]]] })).error).toMatch(/3 × 2 × 2/);
+    expect(parsePohTable(JSON.stringify({ ...axes, groundRollFt: [[[800, 1000], [1000, 'x']]] })).table).toBeNull();
+    const { table, error } = parsePohTable(JSON.stringify({ ...axes, weightsLb: [2000, 2400], groundRollFt: [[[700, 900], [900, 1150]], [[800, 1000], [1000, 1300]]] }));
+    expect(error).toBeNull();
+    expect(pohLookup(table!, 2000, 20, 2400).groundRollFt).toBeCloseTo(1025, 6);
+  });
+});
+
+describe("corrections, climb and solver", () => {
+  it("combines only the enabled correction lines", () => {
+    expect(combineCorrections([{ key: 'a', label: '', factor: 1.2, enabled: true }, { key: 'b', label: '', factor: 2, enabled: false }])).toBe(1.2);
+    expect(SURFACE_FACTORS['grass-dry'].takeoff).toBe(1.2);
+    expect(takeoffSlopeFactor(2)).toBeCloseTo(1.1, 10);
+    expect(takeoffSlopeFactor(-2)).toBe(1);
+    expect(landingSlopeFactor(-2)).toBeCloseTo(1.1, 10);
+    expect(weightFactor(2200, 2400)).toBeCloseTo(0.8403, 4);
+  });
+  it("derives climb gradient from book ROC, DA and wind", () => {
+    expect(tasFromIasKt(80, 8000)).toBeCloseTo(90.23, 2);
+    const c = climbGradient(700, 40, 80, 8000, 10);
+    expect(c.actualRocFpm).toBe(420);
+    expect(c.gradientFtPerNm).toBeCloseTo(314.08, 2);
+  });
+  it("finds the largest input that still meets the target", () => {
+    expect(solveMonotonicMax(x => x * 2, 0, 100, 50).value).toBeCloseTo(25, 1);
+    expect(solveMonotonicMax(x => x, 10, 100, 5).limit).toBe('none');
+    expect(solveMonotonicMax(x => x, 0, 100, 500)).toEqual({ value: 100, limit: 'range' });
+  });
+});
+
+describe("calculateTakeoff", () => {
+  it("pins the precise-model pipeline with corrections and margin", () => {
+    const r = calculateTakeoff({ paFt: 5000, tempC: 30, fieldElevFt: 5000, runwayFt: 3000, model: 'precise', baselineFt: 1000, surface: 'grass-dry', slopePct: 1, safetyMarginPct: 10 });
+    expect(r.densityAltitudeFt.model).toBeCloseTo(7800.5, 1);
+    expect(r.kochFactor).toBeCloseTo(2.1701, 4);
+    expect(r.correctionFactor).toBeCloseTo(1.26, 10);
+    expect(r.requiredFt).toBeCloseTo(2734.29, 2);
+    expect(r.requiredWithMarginFt).toBeCloseTo(3007.72, 2);
+    expect(r.ok).toBe(false);
+    expect(r.limits.maxOatC.value).toBeCloseTo(29.65, 1);
+    expect(r.limits.maxPaFt.value).toBeCloseTo(4969, -1);
+  });
+  it("uses the POH table instead of the Koch factor when given", () => {
+    const { table } = parsePohTable('pa_ft,oat_c,ground_roll_ft,over_50_ft\n0,0,800,1400\n0,40,1000,1700\n4000,0,1000,1750\n4000,40,1300,2150\n');
+    const r = calculateTakeoff({ paFt: 2000, tempC: 20, fieldElevFt: 2000, runwayFt: 3000, model: 'precise', poh: { table: table!, basis: 'groundRoll' } });
+    expect(r.uncorrectedFt).toBeCloseTo(1025, 6);
+    expect(r.ok).toBe(true);
+  });
+  it("keeps switched-off corrections in the breakdown without applying them", () => {
+    const r = calculateTakeoff({ paFt: 0, tempC: 15, fieldElevFt: 0, runwayFt: 3000, model: 'rot', baselineFt: 1000, surface: 'grass-dry', slopePct: 2, apply: { surface: false } });
+    expect(r.corrections.map(c => [c.key, c.enabled])).toEqual([['wind', false], ['surface', false], ['slope', true], ['weight', false]]);
+    expect(r.correctionFactor).toBeCloseTo(1.1, 10);
+  });
+});
+
+describe("calculateLanding", () => {
+  it("applies the DA factor, then wind, surface and slope with no credit uphill", () => {
+    const base = { paFt: 3000, tempC: 25, fieldElevFt: 3000, runwayFt: 2000, model: 'rot' as const, baselineFt: 1000, surface: 'grass-wet' as const };
+    const r = calculateLanding({ ...base, slopePct: -2 });
+    expect(r.daFactor).toBeCloseTo(1.24564, 5);
+    expect(r.requiredFt).toBeCloseTo(1849.78, 2);
+    expect(r.ok).toBe(true);
+    expect(calculateLanding({ ...base, slopePct: 2 }).corrections[2]).toMatchObject({ factor: 1, note: 'uphill, no credit' });
+    expect(calculateLanding({ ...base, slopePct: -2, apply: { surface: false } }).requiredFt).toBeCloseTo(1370.20, 2);
+  });
+});
+
+describe("personal minimums", () => {
+  const input = { runwayFt: 3000, requiredFt: 2000, daFt: 7000, crosswindKt: 12, tailwindKt: 0, category: 'MVFR' as const, metarAgeMin: 20 };
+  it("is GO with no minimums set when the runway fits", () => {
+    const a = assessMinimums(EMPTY_MINIMUMS, input);
+    expect(a.status).toBe('GO');
+    expect(a.checks.map(c => c.key)).toEqual(['runway']);
+  });
+  it("lists exactly the breached limits and takes the worst status", () => {
+    const a = assessMinimums({ ...EMPTY_MINIMUMS, minMarginPct: 60, minMarginFt: 500, maxDaFt: 7500, maxCrosswindKt: 10, minCategory: 'VFR', maxMetarAgeMin: 60 }, input);
+    expect(a.status).toBe('NO-GO');
+    expect(a.breached.map(c => c.key)).toEqual(['marginPct', 'crosswind', 'category']);
+    expect(a.checks.find(c => c.key==='da')?.status).toBe('CAUTION');
+    expect(a.checks.find(c => c.key==='metarAge')?.status).toBe('GO');
+  });
+  it("is CAUTION when data for a set minimum is missing", () => {
+    const a = assessMinimums({ ...EMPTY_MINIMUMS, maxTailwindKt: 5, minCategory: 'MVFR' }, { ...input, tailwindKt: null, category: 'UNK' });
+    expect(a.status).toBe('CAUTION');
+    expect(a.breached).toEqual([]);
+  });
+});
+
+describe("calculation history", () => {
+  const good = { id: 'a1', atMs: 1700000000000, station: 'KSMO', metar: 'KSMO 191853Z', model: 'precise', forecastAtMs: null, tempC: 20, paFt: 500,
+    daRotFt: 1200, daPreciseFt: 1300, runway: '21', runwayFt: 4100, requiredFt: 1500, requiredWithMarginFt: 1650, marginFt: 2450, ok: true, query: 's=KSMO' };
+  it("keeps well-formed entries and coerces stray fields", () => {
+    expect(normalizeHistoryEntry(good)).toEqual(good);
+    expect(normalizeHistoryEntry({ ...good, station: 42, metar: null, model: 'warp', tempC: '20', daRotFt: NaN, ok: 'yes' }))
+      .toMatchObject({ station: '', metar: '', model: 'precise', tempC: null, daRotFt: null, ok: true });
+    expect(normalizeHistoryEntry({ ...good, requiredWithMarginFt: undefined })?.requiredWithMarginFt).toBeNull();
+  });
+  it("drops entries that cannot be shown or reloaded", () => {
+    expect([null, 'x', [], { ...good, id: 7 }, { ...good, query: undefined }, { ...good, requiredFt: '1500' }, { ...good, atMs: null }].map(normalizeHistoryEntry)).toEqual([null, null, null, null, null, null, null]);
+    expect(historyToCsv([normalizeHistoryEntry({ ...good, station: undefined })!]).split('\n')[1]).toMatch(/^2023-11-14T22:13:20.000Z,,KSMO 191853Z,precise,.*,21,4100,1500,1650,2450,true,s=KSMO$/);
+  });
+});
@@ -0,0 +1,825 @@
+/********************
+ * ClimbCheck calculation core — density altitude, Koch/POH performance, METAR/TAF parsing and weather providers.
+ * No React or browser storage here; the app, the CLI and the tests all import from this module.
+ ********************/
+
+/************ Utilities ************/
+export function round(n: number, d: number = 0) { const p = Math.pow(10, d); return Math.round((n + Number.EPSILON) * p) / p; }
+export function cToF(c: number) { return c * 9 / 5 + 32; }
+export function fToC(f: number) { return (f - 32) * 5 / 9; }
+export function ftToM(ft: number){ return ft * 0.3048; }
+export function isaTempAtElevationC(altFt: number) { return 15 - 1.98 * (altFt / 1000); }
+export function pressureAltitudeFromAltimeterFt(fieldElevFt: number, altInHg: number) { return (29.92 - altInHg) * 1000 + fieldElevFt; }
+export function densityAltitudeRuleOfThumbFt(paFt: number, tempC: number, fieldElevFt: number) { const isa = isaTempAtElevationC(fieldElevFt); return paFt + 120 * (tempC - isa); }
+export function inHgToHpa(inHg: number){ return inHg * 33.8638866667; }
+export function hpaToInHg(hpa: number){ return hpa * 0.0295299830714; }
+export function nz(n:number){ return Number.isFinite(n) ? n : 0; }
+// Narrows parsed JSON to a plain object so stored or imported data can be read field by field; null for anything else.
+export function asRecord(x: unknown): Record<string, unknown> | null { return x!=null && typeof x==='object' && !Array.isArray(x) ? x as Record<string, unknown> : null; }
+
+/************ Units ************/
+// Calculations stay in ft, °C, inHg and kt; preferences only convert what is entered and displayed.
+export type LengthUnit = 'ft'|'m';
+export type PressureUnit = 'inHg'|'hPa';
+export type TemperatureUnit = 'C'|'F';
+export type WindUnit = 'kt'|'mps'|'kmh';
+export type UnitPrefs = { altitude: LengthUnit; distance: LengthUnit; pressure: PressureUnit; temperature: TemperatureUnit; wind: WindUnit };
+export const DEFAULT_UNIT_PREFS: UnitPrefs = { altitude: 'ft', distance: 'ft', pressure: 'inHg', temperature: 'C', wind: 'kt' };
+export const UNIT_PRESETS: Record<'imperial'|'metric', UnitPrefs> = {
+  imperial: { altitude: 'ft', distance: 'ft', pressure: 'inHg', temperature: 'F', wind: 'kt' },
+  metric: { altitude: 'm', distance: 'm', pressure: 'hPa', temperature: 'C', wind: 'mps' },
+};
+export const WIND_UNIT_LABELS: Record<WindUnit, string> = { kt: 'kt', mps: 'm/s', kmh: 'km/h' };
+const KT_PER: Record<WindUnit, number> = { kt: 1, mps: 1.943844, kmh: 0.5399568 };
+export function normalizeUnitPrefs(x: unknown): UnitPrefs {
+  const o = asRecord(x) ?? {}; const pick = <T extends string>(v: unknown, ok: readonly T[], d: T): T => ok.find(u => u===v) ?? d;
+  return {
+    altitude: pick(o.altitude, ['ft','m'], 'ft'), distance: pick(o.distance, ['ft','m'], 'ft'), pressure: pick(o.pressure, ['inHg','hPa'], 'inHg'),
+    temperature: pick(o.temperature, ['C','F'], 'C'), wind: pick(o.wind, ['kt','mps','kmh'], 'kt'),
+  };
+}
+export function fromFt(ft: number, u: LengthUnit){ return u==='m' ? ft * 0.3048 : ft; }
+export function toFt(v: number, u: LengthUnit){ return u==='m' ? v / 0.3048 : v; }
+export function fromC(c: number, u: TemperatureUnit){ return u==='F' ? cToF(c) : c; }
+export function toC(v: number, u: TemperatureUnit){ return u==='F' ? fToC(v) : v; }
+export function fromInHg(inHg: number, u: PressureUnit){ return u==='hPa' ? inHgToHpa(inHg) : inHg; }
+export function toInHg(v: number, u: PressureUnit){ return u==='hPa' ? hpaToInHg(v) : v; }
+export function fromKt(kt: number, u: WindUnit){ return kt / KT_PER[u]; }
+export function toKt(v: number, u: WindUnit){ return v * KT_PER[u]; }
+export function convertUnits(v: number, dim: keyof UnitPrefs, from: UnitPrefs, to: UnitPrefs){
+  switch (dim){
+    case 'altitude': case 'distance': return fromFt(toFt(v, from[dim]), to[dim]);
+    case 'pressure': return fromInHg(toInHg(v, from.pressure), to.pressure);
+    case 'temperature': return fromC(toC(v, from.temperature), to.temperature);
+    case 'wind': return fromKt(toKt(v, from.wind), to.wind);
+  }
+}
+// Display precision per unit: whole ft/m, hPa and wind; two decimals of inHg; one of a degree.
+export const PRESSURE_DECIMALS: Record<PressureUnit, number> = { inHg: 2, hPa: 0 };
+export type UnitFormat = {
+  prefs: UnitPrefs;
+  alt: (ft: number) => string; dist: (ft: number) => string; temp: (c: number) => string; tempDelta: (dC: number) => string;
+  press: (inHg: number) => string; wind: (kt: number) => string; windUnit: string;
+};
+export function unitFormat(u: UnitPrefs): UnitFormat {
+  const n = (v: number, d: number) => Number.isFinite(v) ? String(round(v, d)) : '–';
+  return {
+    prefs: u,
+    alt: ft => `${n(fromFt(ft, u.altitude), 0)} ${u.altitude}`,
+    dist: ft => `${n(fromFt(ft, u.distance), 0)} ${u.distance}`,
+    temp: c => `${n(fromC(c, u.temperature), 1)} °${u.temperature}`,
+    tempDelta: dC => `${n(u.temperature==='F' ? dC * 9/5 : dC, 1)} °${u.temperature}`,
+    press: inHg => `${n(fromInHg(inHg, u.pressure), PRESSURE_DECIMALS[u.pressure])} ${u.pressure}`,
+    wind: kt => `${n(fromKt(kt, u.wind), 0)} ${WIND_UNIT_LABELS[u.wind]}`,
+    windUnit: WIND_UNIT_LABELS[u.wind],
+  };
+}
+export const DEFAULT_UNIT_FORMAT = unitFormat(DEFAULT_UNIT_PREFS);
+
+/************ Precise DA helpers ************/
+const P0=101325, T0=288.15, L=0.0065, g=9.80665, R=8.314462618, M=0.0289644;
+const nExp = g*M/(R*L);          // ~5.25588
+const Rd   = 287.05;             // J/(kg·K) dry air
+const rho0 = 1.225;              // kg/m^3 sea-level ISA
+const eps  = 0.622;              // Mw/Md
+function stdPressureAtAltitude(pa_m:number){ const ratio=1-(L*pa_m)/T0; return P0*Math.pow(ratio,nExp); }
+export function preciseDensityAltitudeFt(paFt:number,tempC:number,dewC?:number|null){
+  const h_m = paFt * 0.3048; const p = stdPressureAtAltitude(h_m); const T = tempC + 273.15; let Tv = T;
+  if (dewC!=null && isFinite(dewC)) { const e_hPa = 6.112 * Math.exp((17.67*dewC)/(dewC+243.5)); const p_hPa = p/100; const r = Math.max(0, Math.min(0.1, eps * e_hPa / Math.max(1e-6, (p_hPa - e_hPa)))); Tv = T * (1 + r/eps) / (1 + r); }
+  const rho = p/(Rd*Tv); const expo = 1/(nExp-1); const term = Math.pow(rho/rho0, expo); const h_m_da = (T0/L)*(1-term); return h_m_da/0.3048;
+}
+
+/************ Koch models ************/
+// Single source of truth for each model's density altitude, takeoff distance factor and climb loss.
+export type KochModel = 'rot'|'precise'|'legacy';
+export type PerfMode = KochModel | 'poh';
+export const PERF_MODES: PerfMode[] = ['precise','legacy','rot','poh'];
+export const PERF_MODE_LABELS: Record<PerfMode, string> = { precise: 'Precise', legacy: 'Legacy Koch', rot: 'Rule-of-thumb', poh: 'POH Table' };
+// Precise uses the humidity-corrected DA; Rule-of-thumb and Legacy Koch use the 120 ft/°C rule.
+export function densityAltitudeFt(model: KochModel, paFt: number, tempC: number, fieldElevFt: number, dewC?: number | null){
+  return model==='precise' ? preciseDensityAltitudeFt(paFt, tempC, dewC) : densityAltitudeRuleOfThumbFt(paFt, tempC, fieldElevFt);
+}
+// Takeoff distance: +15% per 1000 ft DA (the original Koch chart reads closer to +12.5%).
+export function kochTakeoffFactor(daFt: number, model: KochModel){ return model==='legacy' ? 1 + 0.125*(daFt/1000) : 1 + 0.15*(daFt/1000); }
+// Climb: ROC −7.5% per 1000 ft DA, floored at no climb; Legacy reports the chart's engine power loss of 9.6% per 1000 ft instead.
+export function kochClimbLossPct(daFt: number, model: KochModel){ return model==='legacy' ? 0.096*(daFt/1000)*100 : rocLossPct(daFt); }
+// The ROC loss itself, whatever the model: the climb gradient needs a rate-of-climb reduction, not Legacy's engine power figure.
+export function rocLossPct(daFt: number){ return (1 - Math.max(0, 1 - 0.075*(daFt/1000)))*100; }
+
+/************ METAR decoding ************/
+// One pass over the tokens; every decoded field keeps the token it came from and whether it was read from the body or the RMK section.
+export type MetarSource = 'body' | 'remarks';
+export type MetarField<T> = { value: T; token: string; source: MetarSource };
+export type MetarWind = WindObs & { unit: 'KT'|'MPS'|'KMH'; calm: boolean };
+export type MetarVisibility = { sm: number; meters: number; qualifier: 'lt'|'gt'|null; cavok: boolean };
+export type MetarRvr = { runway: string; minFt: number; maxFt: number | null; qualifier: 'lt'|'gt'|null; trend: 'U'|'D'|'N'|null };
+export type MetarWeather = { intensity: 'light'|'moderate'|'heavy'|'vicinity'; descriptor: string | null; phenomena: string[]; recent: boolean };
+export type MetarCloud = { cover: 'FEW'|'SCT'|'BKN'|'OVC'|'VV'; baseFt: number | null; convective: 'CB'|'TCU'|null };
+export type MetarAltimeter = { inHg: number; hPa: number; unit: 'A'|'Q' };
+export type MetarReport = {
+  raw: string; type: 'METAR'|'SPECI'|null; station: string | null; time: MetarField<{ day: number; hour: number; minute: number }> | null;
+  auto: boolean; corrected: boolean; nil: boolean;
+  wind: MetarField<MetarWind> | null; visibility: MetarField<MetarVisibility> | null; rvr: MetarField<MetarRvr>[];
+  weather: MetarField<MetarWeather>[]; clouds: MetarField<MetarCloud>[]; skyClear: MetarField<string> | null;
+  tempC: MetarField<number> | null; dewC: MetarField<number> | null; altimeter: MetarField<MetarAltimeter> | null;
+  trend: string | null; remarks: string | null; unrecognized: string[];
+};
+export const SM_TO_M = 1609.344;
+const WX_RE = /^(RE)?(\+|-|VC)?(MI|PR|BC|DR|BL|SH|TS|FZ)?((?:DZ|RA|SN|SG|IC|PL|GR|GS|UP|BR|FG|FU|VA|DU|SA|HZ|PY|PO|SQ|FC|SS|DS)*)$/;
+function metarTokens(raw:string){ return (raw||"").replace(/=/g," ").split(/\s+/).map(t=>t.trim().toUpperCase()).filter(Boolean); }
+function signedMetarTemp(s:string){ return s.startsWith('M') ? -Number(s.slice(1)) : Number(s); }
+function parseFractionSM(s:string){ const [a,b] = s.split('/'); return Number(a)/Number(b); }
+function metarField<T>(value: T, token: string, source: MetarSource = 'body'): MetarField<T> { return { value, token, source }; }
+// `bodyOnly` decodes a bare group of weather tokens (e.g., a TAF change group) without looking for a station or time.
+export function decodeMetar(raw:string, { bodyOnly = false }: { bodyOnly?: boolean } = {}): MetarReport {
+  const r: MetarReport = { raw, type: null, station: null, time: null, auto: false, corrected: false, nil: false, wind: null, visibility: null, rvr: [], weather: [], clouds: [], skyClear: null, tempC: null, dewC: null, altimeter: null, trend: null, remarks: null, unrecognized: [] };
+  const tokens = metarTokens(raw);
+  let i = 0;
+  if (tokens[0]==='METAR' || tokens[0]==='SPECI'){ r.type = tokens[0]; i = 1; }
+  for (; i < tokens.length; i++){
+    const t = tokens[i]; let m: RegExpMatchArray | null;
+    if (t==='RMK'){ r.remarks = tokens.slice(i+1).join(' '); break; }
+    if (t==='TEMPO' || t==='BECMG'){ const end = tokens.indexOf('RMK', i); r.trend = tokens.slice(i, end<0 ? undefined : end).join(' '); if (end<0) break; i = end-1; continue; }
+    if (t==='NOSIG'){ r.trend = t; continue; }
+    if (!bodyOnly && r.station==null && r.time==null && /^[A-Z][A-Z0-9]{2,3}$/.test(t) && !['AUTO','COR','NIL','CAVOK'].includes(t)){ r.station = t; continue; }
+    if (!bodyOnly && r.time==null && (m = t.match(/^(\d{2})(\d{2})(\d{2})Z$/))){ r.time = metarField({ day: Number(m[1]), hour: Number(m[2]), minute: Number(m[3]) }, t); continue; }
+    if (t==='AUTO'){ r.auto = true; continue; }
+    if (t==='COR' || t==='CCA'){ r.corrected = true; continue; }
+    if (t==='NIL'){ r.nil = true; continue; }
+    if (r.wind==null && (m = t.match(/^(\d{3}|VRB)(\d{2,3})(?:G(\d{2,3}))?(KT|MPS|KMH)$/))){
+      const unit = m[4] as MetarWind['unit']; const k = unit==='MPS' ? 1.943844 : unit==='KMH' ? 0.539957 : 1;
+      const speedKt = Number(m[2])*k; const gustKt = m[3] ? Number(m[3])*k : null;
+      r.wind = metarField<MetarWind>({ dirDeg: m[1]==='VRB' ? null : Number(m[1]) % 360, speedKt, gustKt, unit, calm: speedKt===0, varFromDeg: null, varToDeg: null }, t); continue;
+    }
+    if (r.wind && r.wind.value.varFromDeg==null && (m = t.match(/^(\d{3})V(\d{3})$/))){ r.wind.value.varFromDeg = Number(m[1]) % 360; r.wind.value.varToDeg = Number(m[2]) % 360; r.wind.token += ` ${t}`; continue; }
+    if (t==='CAVOK'){ r.visibility = metarField<MetarVisibility>({ sm: 10000/SM_TO_M, meters: 10000, qualifier: 'gt', cavok: true }, t); continue; }
+    if (r.visibility==null && (m = t.match(/^(\d{4})(NDV)?$/))){ const meters = Number(m[1]); r.visibility = metarField<MetarVisibility>({ sm: (meters===9999 ? 10000 : meters)/SM_TO_M, meters: meters===9999 ? 10000 : meters, qualifier: meters===9999 ? 'gt' : meters===0 ? 'lt' : null, cavok: false }, t); continue; }
+    if (r.visibility && /^\d{4}(N|NE|E|SE|S|SW|W|NW)$/.test(t)) continue; // directional minimum visibility
+    if (r.visibility==null && /^\d$/.test(t) && /^\d\/\d{1,2}SM$/.test(tokens[i+1] ?? '')){ const sm = Number(t) + parseFractionSM(tokens[i+1].slice(0,-2)); r.visibility = metarField<MetarVisibility>({ sm, meters: sm*SM_TO_M, qualifier: null, cavok: false }, `${t} ${tokens[i+1]}`); i++; continue; }
+    if (r.visibility==null && (m = t.match(/^([MP])?(\d+|\d\/\d{1,2})SM$/))){ const sm = m[2].includes('/') ? parseFractionSM(m[2]) : Number(m[2]); r.visibility = metarField<MetarVisibility>({ sm, meters: sm*SM_TO_M, qualifier: m[1]==='M' ? 'lt' : m[1]==='P' ? 'gt' : null, cavok: false }, t); continue; }
+    if ((m = t.match(/^R(\d{2}[LCR]?)\/([PM])?(\d{4})(?:V([PM])?(\d{4}))?(FT)?\/?([UDN])?$/))){
+      const toFt = (v:string) => m![6] ? Number(v) : Number(v)/0.3048;
+      r.rvr.push(metarField<MetarRvr>({ runway: m[1], minFt: toFt(m[3]), maxFt: m[5] ? toFt(m[5]) : null, qualifier: m[2]==='M' ? 'lt' : m[2]==='P' ? 'gt' : null, trend: (m[7] as MetarRvr['trend']) ?? null }, t)); continue;
+    }
+    if ((m = t.match(/^(FEW|SCT|BKN|OVC)(\d{3}|\/\/\/)(CB|TCU|\/\/\/)?$/))){ r.clouds.push(metarField<MetarCloud>({ cover: m[1] as MetarCloud['cover'], baseFt: m[2]==='///' ? null : Number(m[2])*100, convective: (m[3]==='CB' || m[3]==='TCU') ? m[3] : null }, t)); continue; }
+    if ((m = t.match(/^VV(\d{3}|\/\/\/)$/))){ r.clouds.push(metarField<MetarCloud>({ cover: 'VV', baseFt: m[1]==='///' ? null : Number(m[1])*100, convective: null }, t)); continue; }
+    if (/^(SKC|CLR|NSC|NCD)$/.test(t)){ r.skyClear = metarField(t, t); continue; }
+    if (r.tempC==null && (m = t.match(/^(M?\d{2})\/(M?\d{2}|\/\/)?$/))){ r.tempC = metarField(signedMetarTemp(m[1]), t); if (m[2] && m[2]!=='//') r.dewC = metarField(signedMetarTemp(m[2]), t); continue; }
+    if (r.altimeter==null && (m = t.match(/^A(\d{4})$/))){ const inHg = Number(m[1])/100; r.altimeter = metarField<MetarAltimeter>({ inHg, hPa: inHgToHpa(inHg), unit: 'A' }, t); continue; }
+    if (r.altimeter==null && (m = t.match(/^Q(\d{4})$/))){ const hPa = Number(m[1]); r.altimeter = metarField<MetarAltimeter>({ inHg: hpaToInHg(hPa), hPa, unit: 'Q' }, t); continue; }
+    if ((m = t.match(WX_RE)) && (m[3] || m[4])){
+      const phenomena = (m[4] ?? '').match(/.{2}/g) ?? [];
+      if (phenomena.length || m[3]==='TS' || m[3]==='SH'){ r.weather.push(metarField<MetarWeather>({ intensity: m[2]==='+' ? 'heavy' : m[2]==='-' ? 'light' : m[2]==='VC' ? 'vicinity' : 'moderate', descriptor: m[3] ?? null, phenomena, recent: !!m[1] }, t)); continue; }
+    }
+    if (/^\/+$/.test(t) || /^\/+(KT|SM)$/.test(t)) continue; // sensor data not available (AUTO stations)
+    r.unrecognized.push(t);
+  }
+  // US remarks: T-group carries temperature and dewpoint to 0.1 °C and takes precedence over the body group.
+  for (const t of metarTokens(r.remarks ?? '')){
+    const m = t.match(/^T([01])(\d{3})(?:([01])(\d{3}))?$/); if (!m) continue;
+    r.tempC = metarField((m[1]==='1' ? -1 : 1) * Number(m[2])/10, t, 'remarks');
+    if (m[3] && m[4]) r.dewC = metarField((m[3]==='1' ? -1 : 1) * Number(m[4])/10, t, 'remarks');
+  }
+  return r;
+}
+export type FlightCategory = 'VFR'|'MVFR'|'IFR'|'LIFR'|'UNK';
+export function flightCategory(m: MetarReport): FlightCategory {
+  const vis = m.visibility ? m.visibility.value.sm : NaN;
+  let ceiling = 99999;
+  for (const c of m.clouds){ if (['BKN','OVC','VV'].includes(c.value.cover) && c.value.baseFt!=null) ceiling = Math.min(ceiling, c.value.baseFt); }
+  if(!isFinite(vis)) return 'UNK';
+  if (ceiling<500 || vis<1) return 'LIFR';
+  if (ceiling<1000 || vis<3) return 'IFR';
+  if (ceiling<=3000 || vis<=5) return 'MVFR';
+  return 'VFR';
+}
+
+/************ TAF decoding ************/
+// Change groups keep their own validity window; bodies are decoded with the METAR token rules.
+export type TafChange = 'BASE' | 'FM' | 'BECMG' | 'TEMPO' | 'PROB';
+export type TafConditions = { wind: MetarWind | null; visibility: MetarVisibility | null; weather: MetarWeather[]; clouds: MetarCloud[]; skyClear: boolean };
+export type TafGroup = TafConditions & { change: TafChange; probability: number | null; fromMs: number; toMs: number; text: string; noSigWx: boolean; unrecognized: string[] };
+export type TafTemp = { kind: 'max' | 'min'; tempC: number; atMs: number; token: string };
+export type TafReport = { raw: string; station: string | null; issuedMs: number | null; validFromMs: number; validToMs: number; amended: boolean; groups: TafGroup[]; temps: TafTemp[] };
+function tafConditions(tokens: string[]): TafConditions & { noSigWx: boolean; unrecognized: string[] } {
+  const m = decodeMetar(tokens.join(' '), { bodyOnly: true });
+  return { wind: m.wind?.value ?? null, visibility: m.visibility?.value ?? null, weather: m.weather.map(w => w.value), clouds: m.clouds.map(c => c.value), skyClear: !!m.skyClear, noSigWx: tokens.includes('NSW'), unrecognized: m.unrecognized.filter(t => t!=='NSW') };
+}
+export function decodeTaf(raw: string, refMs = Date.now()): TafReport | null {
+  const tokens = metarTokens(raw); let i = 0; let amended = false;
+  while (['TAF','AMD','COR'].includes(tokens[i])){ if (tokens[i]==='AMD') amended = true; i++; }
+  const station = /^[A-Z][A-Z0-9]{2,3}$/.test(tokens[i] ?? '') ? tokens[i++] : null;
+  let m: RegExpMatchArray | null; let issuedMs: number | null = null;
+  if ((m = (tokens[i] ?? '').match(/^(\d{2})(\d{2})(\d{2})Z$/))){ issuedMs = resolveDayTimeMs(Number(m[1]), Number(m[2]), Number(m[3]), refMs); i++; }
+  const ref = issuedMs ?? refMs;
+  const span = (t: string) => { const p = t.match(/^(\d{2})(\d{2})\/(\d{2})(\d{2})$/); if (!p) return null; const from = resolveDayTimeMs(Number(p[1]), Number(p[2]), 0, ref); let to = resolveDayTimeMs(Number(p[3]), Number(p[4]), 0, from); if (to < from) to = from; return { from, to }; };
+  const validity = span(tokens[i] ?? ''); if (!validity) return null; i++;
+  const groups: TafGroup[] = []; const temps: TafTemp[] = [];
+  let cur: { change: TafChange; probability: number | null; fromMs: number; toMs: number; tokens: string[] } = { change: 'BASE', probability: null, fromMs: validity.from, toMs: validity.to, tokens: [] };
+  const flush = () => { groups.push({ change: cur.change, probability: cur.probability, fromMs: cur.fromMs, toMs: cur.toMs, text: cur.tokens.join(' '), ...tafConditions(cur.tokens) }); };
+  for (; i < tokens.length; i++){
+    const t = tokens[i];
+    if (t==='RMK') break;
+    if ((m = t.match(/^T([XN])(M?\d{2})\/(\d{2})(\d{2})Z$/))){ temps.push({ kind: m[1]==='X' ? 'max' : 'min', tempC: signedMetarTemp(m[2]), atMs: resolveDayTimeMs(Number(m[3]), Number(m[4]), 0, validity.from), token: t }); continue; }
+    if ((m = t.match(/^FM(\d{2})(\d{2})(\d{2})$/))){ flush(); cur = { change: 'FM', probability: null, fromMs: resolveDayTimeMs(Number(m[1]), Number(m[2]), Number(m[3]), validity.from), toMs: validity.to, tokens: [] }; continue; }
+    if (t==='BECMG' || t==='TEMPO' || (m = t.match(/^PROB(\d{2})$/))){
+      flush();
+      const probability = t.startsWith('PROB') ? Number(t.slice(4)) : null;
+      if (probability!=null && tokens[i+1]==='TEMPO') i++; // PROB30 TEMPO: probability of a temporary change
+      const w = span(tokens[i+1] ?? ''); if (w) i++;
+      cur = { change: probability!=null ? 'PROB' : t as TafChange, probability, fromMs: w?.from ?? validity.from, toMs: w?.to ?? validity.to, tokens: [] }; continue;
+    }
+    cur.tokens.push(t);
+  }
+  flush();
+  // An FM group runs until the next one starts.
+  const fms = groups.filter(g => g.change==='BASE' || g.change==='FM');
+  fms.forEach((g, k) => { const next = fms[k+1]; if (next) g.toMs = next.fromMs; });
+  return { raw, station, issuedMs, validFromMs: validity.from, validToMs: validity.to, amended, groups, temps };
+}
+// Prevailing conditions (base/FM, with BECMG changes applied from the start of their window) plus any TEMPO/PROB groups in force.
+export function tafConditionsAt(taf: TafReport, tMs: number): { prevailing: TafConditions; temporary: TafGroup[] } {
+  let prevailing: TafConditions = { wind: null, visibility: null, weather: [], clouds: [], skyClear: false };
+  for (const g of taf.groups){
+    if ((g.change==='BASE' || g.change==='FM') && g.fromMs <= tMs) prevailing = { wind: g.wind, visibility: g.visibility, weather: g.weather, clouds: g.clouds, skyClear: g.skyClear };
+    if (g.change==='BECMG' && g.fromMs <= tMs) prevailing = { wind: g.wind ?? prevailing.wind, visibility: g.visibility ?? prevailing.visibility, weather: g.weather.length || g.noSigWx ? g.weather : prevailing.weather, clouds: g.clouds.length || g.skyClear ? g.clouds : prevailing.clouds, skyClear: g.skyClear || (!g.clouds.length && prevailing.skyClear) };
+  }
+  return { prevailing, temporary: taf.groups.filter(g => (g.change==='TEMPO' || g.change==='PROB') && g.fromMs <= tMs && tMs < g.toMs) };
+}
+// TAFs forecast only the daily extremes, so temperature in between is interpolated linearly from the anchors (e.g., the current METAR plus TX/TN) and held flat beyond them.
+export function interpolateTempC(anchors: { atMs: number; tempC: number }[], tMs: number): number | null {
+  const pts = [...anchors].sort((a, b) => a.atMs - b.atMs); if (!pts.length) return null;
+  if (tMs <= pts[0].atMs) return pts[0].tempC;
+  for (let k = 1; k < pts.length; k++){ const a = pts[k-1], b = pts[k]; if (tMs <= b.atMs) return b.atMs===a.atMs ? b.tempC : a.tempC + (b.tempC - a.tempC) * (tMs - a.atMs) / (b.atMs - a.atMs); }
+  return pts[pts.length-1].tempC;
+}
+export function formatDayTimeZ(ms: number){ const d = new Date(ms); return `${pad2(d.getUTCDate())}/${pad2(d.getUTCHours())}${pad2(d.getUTCMinutes())}Z`; }
+
+/************ Wind & runway components ************/
+export type WindObs = { dirDeg: number | null; speedKt: number; gustKt: number | null; varFromDeg?: number | null; varToDeg?: number | null };
+export type RunwayIdent = { headingDeg: number; ident: string; recipIdent: string };
+export type WindComponents = { headKt: number; crossKt: number; gustHeadKt: number; gustCrossKt: number; crossFrom: 'L'|'R'|null; variable: boolean };
+export function pad2(n:number){ return String(n).padStart(2,'0'); }
+// Accepts a designator ("9", "27", "09L") or a 3-digit heading ("273"); the reciprocal end swaps L/R.
+export function parseRunwayIdent(s: string): RunwayIdent | null {
+  const t = (s||'').trim().toUpperCase().replace(/^RWY\s*/, '');
+  const d = t.match(/^(\d{1,2})([LCR])?$/);
+  if (d){ const n = Number(d[1]); if (n<1 || n>36) return null; const side = d[2] ?? ''; const recipSide = side==='L' ? 'R' : side==='R' ? 'L' : side; return { headingDeg: n*10, ident: pad2(n)+side, recipIdent: pad2(((n+17)%36)+1)+recipSide }; }
+  const h = t.match(/^(\d{3})$/);
+  if (h){ const hdg = Number(h[1]); if (hdg>360) return null; const n = (Math.round(hdg/10) % 36) || 36; return { headingDeg: hdg % 360, ident: pad2(n), recipIdent: pad2(((n+17)%36)+1) }; }
+  return null;
+}
+// Headwind positive / tailwind negative. Variable winds are treated as a full tailwind and a full crosswind (worst case);
+// a reported variable sector (e.g. 240V300) is swept for the least headwind and the most crosswind.
+export function windComponents(w: WindObs, runwayHeadingDeg: number): WindComponents {
+  const peak = w.gustKt ?? w.speedKt;
+  if (w.dirDeg == null) return { headKt: -w.speedKt, crossKt: w.speedKt, gustHeadKt: -peak, gustCrossKt: peak, crossFrom: null, variable: true };
+  const dirs = [w.dirDeg];
+  if (w.varFromDeg != null && w.varToDeg != null){ const span = (w.varToDeg - w.varFromDeg + 360) % 360; for (let d = 0; d < span; d += 5) dirs.push((w.varFromDeg + d) % 360); dirs.push(w.varToDeg); }
+  const worst = (kt:number) => dirs.map(d => { const rel = (d - runwayHeadingDeg) * Math.PI / 180; return { head: kt*Math.cos(rel), cross: kt*Math.sin(rel) }; })
+    .reduce((a,b) => ({ head: Math.min(a.head, b.head), cross: Math.abs(b.cross) > Math.abs(a.cross) ? b.cross : a.cross }));
+  const s = worst(w.speedKt), gst = worst(peak);
+  const crossFrom = Math.abs(s.cross) < 1e-9 ? null : (s.cross > 0 ? 'R' : 'L');
+  return { headKt: s.head, crossKt: Math.abs(s.cross), gustHeadKt: gst.head, gustCrossKt: Math.abs(gst.cross), crossFrom, variable: false };
+}
+// POH-style correction, applied alike to takeoff and landing: −10% per 9 kt of steady headwind (no credit for gusts), +10% per 2 kt of tailwind (gust value used).
+export function windDistanceFactor(c: WindComponents){
+  if (c.headKt >= 0) return Math.max(0.5, 1 - 0.10*(c.headKt/9));
+  const tailKt = Math.max(-c.headKt, -c.gustHeadKt); return 1 + 0.10*(tailKt/2);
+}
+// Of several candidate winds (e.g., prevailing plus TEMPO groups), the one that lengthens the takeoff most; ties go to the stronger crosswind.
+export function leastFavourableWind<W extends WindObs>(winds: (W | null)[], headingDeg: number | null): W | null {
+  const list = winds.filter((w): w is W => w!=null); if (headingDeg==null || list.length < 2) return list[0] ?? null;
+  const score = (w: W) => { const c = windComponents(w, headingDeg); return [windDistanceFactor(c), c.gustCrossKt]; };
+  return list.reduce((a, b) => { const [fa, xa] = score(a), [fb, xb] = score(b); return fb > fa || (fb===fa && xb > xa) ? b : a; });
+}
+
+/************ Airport & runway database ************/
+// OurAirports CSV layout (airports.csv + runways.csv); the bundled files are a small sample subset with the same headers.
+export type RunwayEnd = { ident: string; headingDegT: number | null; displacedThresholdFt: number; elevationFt: number | null };
+export type AirportRunway = { lengthFt: number; widthFt: number | null; surface: string; lighted: boolean; closed: boolean; le: RunwayEnd; he: RunwayEnd };
+export type Airport = { ident: string; icao: string | null; iata: string | null; lid: string | null; name: string; elevationFt: number | null; country: string; municipality: string; runways: AirportRunway[] };
+export type AirportDb = { airports: Map<string, Airport>; byCode: Map<string, Airport> };
+export function parseCsv(text:string): string[][] {
+  const rows: string[][] = []; let row: string[] = []; let cell = ''; let quoted = false;
+  for (let i = 0; i < text.length; i++){
+    const c = text[i];
+    if (quoted){ if (c==='"' && text[i+1]==='"'){ cell += '"'; i++; } else if (c==='"') quoted = false; else cell += c; continue; }
+    if (c==='"') quoted = true;
+    else if (c===','){ row.push(cell); cell = ''; }
+    else if (c==='\n' || c==='\r'){ if (c==='\r' && text[i+1]==='\n') i++; row.push(cell); cell = ''; if (row.some(v => v!=='')) rows.push(row); row = []; }
+    else cell += c;
+  }
+  row.push(cell); if (row.some(v => v!=='')) rows.push(row);
+  return rows;
+}
+export function csvRecords(text:string): Record<string,string>[] {
+  const [header, ...rows] = parseCsv(text); if (!header) return [];
+  return rows.map(r => Object.fromEntries(header.map((h,i) => [h.trim(), (r[i] ?? '').trim()])));
+}
+// Quotes only the cells that need it; null and non-finite numbers become empty cells.
+export function toCsv(rows: (string | number | boolean | null)[][]){
+  const cell = (v: string | number | boolean | null) => { const t = v==null || (typeof v==='number' && !isFinite(v)) ? '' : String(v); return /[",\r\n]/.test(t) ? `"${t.replace(/"/g, '""')}"` : t; };
+  return rows.map(r => r.map(cell).join(',')).join('\n') + '\n';
+}
+export function csvNum(s:string|undefined){ if (s==null || s.trim()==='') return null; const v = Number(s); return isFinite(v) ? v : null; }
+// Keeps records from `base` and overrides them by ident with the newly imported rows.
+export function buildAirportDb(airportsCsv:string, runwaysCsv:string, base?: AirportDb): AirportDb {
+  const airports = new Map<string, Airport>(base?.airports);
+  for (const a of csvRecords(airportsCsv)){
+    const ident = (a.ident ?? '').toUpperCase(); if (!ident || a.type==='closed') continue;
+    const icao = (a.icao_code || a.gps_code || '').toUpperCase() || (/^[A-Z]{4}$/.test(ident) ? ident : '');
+    airports.set(ident, { ident, icao: icao || null, iata: (a.iata_code ?? '').toUpperCase() || null, lid: (a.local_code ?? '').toUpperCase() || null, name: a.name ?? ident, elevationFt: csvNum(a.elevation_ft), country: a.iso_country ?? '', municipality: a.municipality ?? '', runways: [] });
+  }
+  const importedRunways = new Set<string>();
+  for (const rw of csvRecords(runwaysCsv)){
+    let ap = airports.get((rw.airport_ident ?? '').toUpperCase()); const lengthFt = csvNum(rw.length_ft);
+    if (!ap || lengthFt==null || rw.closed==='1') continue;
+    if (!importedRunways.has(ap.ident)){ ap = { ...ap, runways: [] }; airports.set(ap.ident, ap); importedRunways.add(ap.ident); }
+    const end = (p:'le'|'he'): RunwayEnd => ({ ident: (rw[`${p}_ident`] ?? '').toUpperCase(), headingDegT: csvNum(rw[`${p}_heading_degT`]), displacedThresholdFt: csvNum(rw[`${p}_displaced_threshold_ft`]) ?? 0, elevationFt: csvNum(rw[`${p}_elevation_ft`]) });
+    ap.runways.push({ lengthFt, widthFt: csvNum(rw.width_ft), surface: (rw.surface ?? '').toUpperCase(), lighted: rw.lighted==='1', closed: false, le: end('le'), he: end('he') });
+  }
+  // Lookup precedence: ident, then ICAO, FAA LID and finally IATA, so a 3-letter LID never resolves to an unrelated IATA code.
+  const byCode = new Map<string, Airport>();
+  for (const key of ['ident','icao','lid','iata'] as const){ for (const ap of airports.values()){ const code = ap[key]; if (code && !byCode.has(code)) byCode.set(code, ap); } }
+  return { airports, byCode };
+}
+export function lookupAirport(db: AirportDb, code:string){ return db.byCode.get((code||'').trim().toUpperCase()) ?? null; }
+// True heading from the dataset when present; otherwise the designator × 10 (magnetic, ±5°).
+export function runwayEndIdent(rw: AirportRunway, end: 'le'|'he'): RunwayIdent | null {
+  const a = rw[end], b = rw[end==='le' ? 'he' : 'le'];
+  const fromDesignator = parseRunwayIdent(a.ident); if (!fromDesignator && a.headingDegT==null) return null;
+  return { headingDeg: a.headingDegT ?? fromDesignator!.headingDeg, ident: a.ident, recipIdent: b.ident || fromDesignator?.recipIdent || '' };
+}
+
+/************ Weather providers ************/
+// Every provider resolves a station ID to a raw METAR or TAF string, or throws with a reason the UI can show.
+export type WeatherProviderKind = 'aviationweather' | 'custom' | 'file' | 'mock';
+export type WeatherProduct = 'metar' | 'taf';
+export type WeatherSettings = { provider: WeatherProviderKind; proxy: string; endpoint: string; tafEndpoint: string; timeoutSec: number; retries: number; cacheMin: number; staleMin: number };
+export type WeatherProvider = { label: string; cacheable: boolean; fetch: (product: WeatherProduct, id: string) => Promise<string> };
+export const WEATHER_PROVIDERS: { kind: WeatherProviderKind; label: string }[] = [
+  { kind: 'aviationweather', label: 'aviationweather.gov' },
+  { kind: 'custom', label: 'Custom endpoint' },
+  { kind: 'file', label: 'Local file' },
+  { kind: 'mock', label: 'Mock (offline)' },
+];
+export const AVIATIONWEATHER_ENDPOINTS: Record<WeatherProduct, string[]> = {
+  metar: [
+    'https://aviationweather.gov/api/data/metar?ids={id}&format=raw&hours=1',
+    'https://aviationweather.gov/adds/dataserver_current/httpparam?dataSource=metars&requestType=retrieve&format=xml&hoursBeforeNow=2&stationString={id}',
+  ],
+  taf: [
+    'https://aviationweather.gov/api/data/taf?ids={id}&format=raw',
+    'https://aviationweather.gov/adds/dataserver_current/httpparam?dataSource=tafs&requestType=retrieve&format=xml&hoursBeforeNow=6&mostRecent=true&stationString={id}',
+  ],
+};
+export const DEFAULT_WEATHER_SETTINGS: WeatherSettings = { provider: 'aviationweather', proxy: 'https://api.allorigins.win/raw?url=', endpoint: '', tafEndpoint: '', timeoutSec: 8, retries: 1, cacheMin: 10, staleMin: 90 };
+export function normalizeWeatherSettings(x: unknown): WeatherSettings {
+  const d = DEFAULT_WEATHER_SETTINGS; const o = asRecord(x); if (!o) return d;
+  const num = (v: unknown, fallback: number, lo: number, hi: number) => { const n = Number(v); return isFinite(n) && v !== '' && v != null ? Math.min(hi, Math.max(lo, n)) : fallback; };
+  const str = (v: unknown, fallback: string) => typeof v==='string' ? v : fallback;
+  return {
+    provider: WEATHER_PROVIDERS.find(p => p.kind===o.provider)?.kind ?? d.provider,
+    proxy: str(o.proxy, d.proxy), endpoint: str(o.endpoint, d.endpoint), tafEndpoint: str(o.tafEndpoint, d.tafEndpoint),
+    timeoutSec: num(o.timeoutSec, d.timeoutSec, 1, 60), retries: Math.round(num(o.retries, d.retries, 0, 5)),
+    cacheMin: num(o.cacheMin, d.cacheMin, 0, 120), staleMin: num(o.staleMin, d.staleMin, 5, 24*60),
+  };
+}
+function proxiedUrl(proxy: string, url: string){ const p = proxy.trim(); try { const full = p ? `${p}${encodeURIComponent(url)}` : url; new URL(full); return full; } catch { return url; } }
+async function fetchTextWithTimeout(url: string, timeoutMs: number): Promise<string> {
+  const ctl = new AbortController(); const timer = setTimeout(() => ctl.abort(), timeoutMs);
+  try { const res = await fetch(url, { signal: ctl.signal }); if (!res.ok) throw new Error(`HTTP ${res.status}`); return await res.text(); }
+  catch (e) { throw ctl.signal.aborted ? new Error(`timed out after ${round(timeoutMs/1000, 1)} s`) : e; }
+  finally { clearTimeout(timer); }
+}
+// Pulls the METAR for `id` out of a raw-text, XML or multi-station response; null when none is present.
+export function extractMetarText(txt: string, id: string): string | null {
+  if (/<!DOCTYPE|<html/i.test(txt)) return null;
+  const xml = Array.from(txt.matchAll(/<raw_text>([^<]+)<\/raw_text>/gi), m => m[1].trim());
+  const lines = xml.length ? xml : txt.split(/\r?\n+/).map(s => s.trim()).filter(Boolean);
+  const isMetar = (s: string) => /(METAR|SPECI|^\w{3,4}\s\d{6}Z)/.test(s);
+  const forStation = lines.filter(s => isMetar(s) && new RegExp(`(^|\\s)${id}\\s\\d{6}Z`).test(s));
+  return forStation[0] ?? lines.find(isMetar) ?? null;
+}
+// TAFs span several lines; continuation lines are indented or start with a change group.
+export function extractTafText(txt: string, id: string): string | null {
+  if (/<!DOCTYPE|<html/i.test(txt)) return null;
+  const xml = Array.from(txt.matchAll(/<raw_text>([^<]+)<\/raw_text>/gi), m => m[1].trim());
+  const reports = xml.length ? xml : txt.split(/\r?\n(?![ \t]|FM\d|TEMPO|BECMG|PROB)/).map(s => s.replace(/\s+/g, ' ').trim()).filter(Boolean);
+  const isTaf = (s: string) => /^(TAF\s+)?(AMD\s+|COR\s+)?[A-Z0-9]{3,4}\s\d{6}Z\s\d{4}\/\d{4}/.test(s);
+  return reports.find(s => isTaf(s) && new RegExp(`(^|\\s)${id}\\s\\d{6}Z`).test(s)) ?? null;
+}
+export function errorMessage(e: unknown){ return e instanceof Error ? e.message : String(e); }
+function endpointHost(tpl: string){ try { return new URL(tpl.replace(/\{id\}/g, 'X')).host; } catch { return tpl; } }
+function extractWeatherText(product: WeatherProduct, txt: string, id: string){ return product==='taf' ? extractTafText(txt, id) : extractMetarText(txt, id); }
+export function httpWeatherProvider(label: string, templates: Record<WeatherProduct, string[]>, s: WeatherSettings): WeatherProvider {
+  return { label, cacheable: true, fetch: async (product, id) => {
+    const errors: string[] = [];
+    for (const tpl of templates[product]){
+      const url = proxiedUrl(s.proxy, tpl.replace(/\{id\}/g, encodeURIComponent(id)));
+      for (let attempt = 0; attempt <= s.retries; attempt++){
+        if (attempt) await new Promise(r => setTimeout(r, 500 * attempt));
+        try { const raw = extractWeatherText(product, await fetchTextWithTimeout(url, s.timeoutSec * 1000), id); if (raw) return raw; errors.push(`${endpointHost(tpl)}: no ${product.toUpperCase()} in response`); break; }
+        catch (e) { if (attempt===s.retries) errors.push(`${endpointHost(tpl)}: ${errorMessage(e)}`); }
+      }
+    }
+    throw new Error(errors.join('; ') || `no ${product.toUpperCase()} endpoint configured`);
+  } };
+}
+export function fileWeatherProvider(text: string, fileName: string): WeatherProvider {
+  return { label: fileName || 'local file', cacheable: false, fetch: async (product, id) => {
+    if (!text.trim()) throw new Error('no weather file loaded');
+    const raw = extractWeatherText(product, text, id); if (!raw || !new RegExp(`(^|\\s)${id}\\s`).test(raw)) throw new Error(`${product.toUpperCase()} for ${id} not found in ${fileName || 'file'}`);
+    return raw;
+  } };
+}
+// Fixed, benign conditions stamped with the current time, so the whole pipeline can be exercised offline.
+export function mockWeatherProvider(now: () => Date = () => new Date()): WeatherProvider {
+  return { label: 'mock', cacheable: false, fetch: async (product, id) => {
+    const d = now(); const at = (h: number) => { const t = new Date(d.getTime() + h*3600e3); return `${pad2(t.getUTCDate())}${pad2(t.getUTCHours())}`; };
+    if (product==='metar') return `METAR ${id} ${at(0)}${pad2(d.getUTCMinutes())}Z 24008KT 10SM FEW045 18/07 A3001`;
+    return `TAF ${id} ${at(0)}00Z ${at(1)}/${at(25)} 24008KT P6SM FEW045 TX29/${at(7)}Z TN12/${at(19)}Z FM${at(5)}00 26014G22KT P6SM SCT060 TEMPO ${at(8)}/${at(11)} 5SM HZ BECMG ${at(12)}/${at(14)} 30006KT PROB30 ${at(20)}/${at(24)} 3SM BR`;
+  } };
+}
+export function makeWeatherProvider(s: WeatherSettings, file: { text: string; name: string }): WeatherProvider {
+  switch (s.provider){
+    case 'custom': {
+      const list = (v: string) => v.trim() ? [v.trim()] : [];
+      return httpWeatherProvider(s.endpoint.trim() ? endpointHost(s.endpoint.trim()) : 'custom endpoint', { metar: list(s.endpoint), taf: list(s.tafEndpoint) }, s);
+    }
+    case 'file': return fileWeatherProvider(file.text, file.name);
+    case 'mock': return mockWeatherProvider();
+    default: return httpWeatherProvider('aviationweather.gov', AVIATIONWEATHER_ENDPOINTS, s);
+  }
+}
+const weatherCache = new Map<string, { raw: string; fetchedAt: number }>();
+export async function fetchWeatherCached(p: WeatherProvider, product: WeatherProduct, id: string, cacheMin: number): Promise<{ raw: string; cachedAgeMin: number | null }> {
+  const key = `${p.label}|${product}|${id}`; const hit = weatherCache.get(key);
+  if (p.cacheable && hit && Date.now() - hit.fetchedAt < cacheMin * 60e3) return { raw: hit.raw, cachedAgeMin: (Date.now() - hit.fetchedAt) / 60e3 };
+  const raw = await p.fetch(product, id); if (p.cacheable) weatherCache.set(key, { raw, fetchedAt: Date.now() });
+  return { raw, cachedAgeMin: null };
+}
+// Weather groups carry no month or year; resolve the day against a reference time, allowing for month rollover either way.
+export function resolveDayTimeMs(day: number, hour: number, minute: number, refMs: number): number {
+  const ref = new Date(refMs); const at = (monthOffset: number) => Date.UTC(ref.getUTCFullYear(), ref.getUTCMonth() + monthOffset, day, hour, minute);
+  const t = at(0);
+  if (t - refMs > 15*86400e3) return at(-1);
+  if (refMs - t > 15*86400e3) return at(1);
+  return t;
+}
+export function metarAgeMinutes(t: { day: number; hour: number; minute: number }, now = new Date()): number {
+  return (now.getTime() - resolveDayTimeMs(t.day, t.hour, t.minute, now.getTime())) / 60e3;
+}
+
+/************ POH performance tables ************/
+// Takeoff grids as published in the POH: distance by pressure altitude × OAT, optionally repeated per weight.
+// Grids are indexed [weight][pressure altitude][OAT]; a table without a weight column carries a single weight of 0.
+export type PohTable = { hasWeights: boolean; weightsLb: number[]; paFt: number[]; oatC: number[]; groundRollFt: number[][][]; over50Ft: number[][][] | null };
+export type PohRow = { weightLb: number | null; paFt: number; oatC: number; groundRollFt: number; over50Ft: number | null };
+export type PohLookup = { groundRollFt: number; over50Ft: number | null; warnings: string[] };
+const POH_COLUMNS: Record<keyof PohRow, string[]> = {
+  weightLb: ['weight_lb','weight','wt'], paFt: ['pa_ft','pa','pressure_altitude'], oatC: ['oat_c','oat','temp_c','temp'],
+  groundRollFt: ['ground_roll_ft','ground_roll','gr'], over50Ft: ['over_50_ft','over_50','over50','total_50ft'],
+};
+function pohRowFromRecord(rec: Record<string, unknown>): PohRow | null {
+  const keys = Object.keys(rec); const pick = (col: keyof PohRow) => { const k = keys.find(k => POH_COLUMNS[col].includes(k.trim().toLowerCase())); return k==null ? null : csvNum(String(rec[k] ?? '')); };
+  const paFt = pick('paFt'), oatC = pick('oatC'), groundRollFt = pick('groundRollFt');
+  if (paFt==null || oatC==null || groundRollFt==null) return null;
+  return { weightLb: pick('weightLb'), paFt, oatC, groundRollFt, over50Ft: pick('over50Ft') };
+}
+function pohTableFromRows(rows: PohRow[]): { table: PohTable | null; error: string | null } {
+  if (!rows.length) return { table: null, error: 'No rows with pressure altitude, OAT and ground roll.' };
+  const uniq = (xs:number[]) => Array.from(new Set(xs)).sort((a,b) => a-b);
+  const hasWeights = rows.some(r => r.weightLb!=null); const hasOver50 = rows.some(r => r.over50Ft!=null);
+  const weightsLb = uniq(rows.map(r => r.weightLb ?? 0)), paFt = uniq(rows.map(r => r.paFt)), oatC = uniq(rows.map(r => r.oatC));
+  const missing: string[] = [];
+  const grid = (pick:(r:PohRow)=>number|null) => weightsLb.map(w => paFt.map(p => oatC.map(t => {
+    const r = rows.find(r => (r.weightLb ?? 0)===w && r.paFt===p && r.oatC===t); const v = r ? pick(r) : null;
+    if (v==null){ missing.push(`${hasWeights ? `${w} lb, ` : ''}${p} ft, ${t} °C`); return NaN; } return v;
+  })));
+  const groundRollFt = grid(r => r.groundRollFt); const over50Ft = hasOver50 ? grid(r => r.over50Ft) : null;
+  if (missing.length) return { table: null, error: `Incomplete grid, missing: ${missing.slice(0,4).join('; ')}${missing.length>4 ? ` (+${missing.length-4} more)` : ''}` };
+  return { table: { hasWeights, weightsLb, paFt, oatC, groundRollFt, over50Ft }, error: null };
+}
+// A JSON table object must carry ascending numeric axes and grids shaped weights × pressure altitude × OAT.
+function pohTableFromJson(t: Record<string, unknown>): { table: PohTable | null; error: string | null } {
+  const isAxis = (v: unknown): v is number[] => Array.isArray(v) && v.length > 0 && v.every((x, i) => typeof x==='number' && Number.isFinite(x) && (i===0 || x > v[i-1]));
+  if (!isAxis(t.paFt) || !isAxis(t.oatC) || !Array.isArray(t.groundRollFt)) return { table: null, error: 'JSON table needs paFt, oatC and groundRollFt.' };
+  if (t.weightsLb!=null && !(isAxis(t.weightsLb) || (Array.isArray(t.weightsLb) && !t.weightsLb.length))) return { table: null, error: 'JSON weightsLb must be ascending numbers.' };
+  const hasWeights = Array.isArray(t.weightsLb) && t.weightsLb.length > 0; const weightsLb = hasWeights ? t.weightsLb as number[] : [0]; const paFt = t.paFt, oatC = t.oatC;
+  const isGrid = (g: unknown): g is number[][][] => Array.isArray(g) && g.length===weightsLb.length && g.every(plane =>
+    Array.isArray(plane) && plane.length===paFt.length && plane.every(row => Array.isArray(row) && row.length===oatC.length && row.every(v => typeof v==='number' && Number.isFinite(v))));
+  const shape = `${weightsLb.length} × ${paFt.length} × ${oatC.length} (weights × pressure altitudes × OATs)`;
+  if (!isGrid(t.groundRollFt)) return { table: null, error: `JSON groundRollFt must be a ${shape} grid of numbers.` };
+  if (t.over50Ft!=null && !isGrid(t.over50Ft)) return { table: null, error: `JSON over50Ft must be a ${shape} grid of numbers.` };
+  return { table: { hasWeights, weightsLb, paFt, oatC, groundRollFt: t.groundRollFt, over50Ft: t.over50Ft ?? null }, error: null };
+}
+// Accepts long-format CSV (weight_lb, pa_ft, oat_c, ground_roll_ft, over_50_ft) or JSON: a PohTable object or an array of row objects with the same keys.
+export function parsePohTable(text:string): { table: PohTable | null; error: string | null } {
+  const s = (text||'').trim(); if (!s) return { table: null, error: null };
+  if (s.startsWith('{') || s.startsWith('[')){
+    let json: unknown; try { json = JSON.parse(s); } catch { return { table: null, error: 'Invalid JSON.' }; }
+    if (Array.isArray(json)) return pohTableFromRows(json.map(r => pohRowFromRecord(r ?? {})).filter((r): r is PohRow => r!=null));
+    return pohTableFromJson(json as Record<string, unknown>);
+  }
+  return pohTableFromRows(csvRecords(s).map(pohRowFromRecord).filter((r): r is PohRow => r!=null));
+}
+// Bracketing index and fraction; outside the range the end segment is extended (f < 0 or f > 1).
+function pohAxis(xs:number[], x:number){
+  if (xs.length < 2) return { i: 0, j: 0, f: 0, out: x < xs[0] ? 'below' : x > xs[0] ? 'above' : null };
+  let i = xs.findIndex((_, k) => k < xs.length-1 && x <= xs[k+1]); if (i < 0) i = xs.length-2;
+  return { i, j: i+1, f: (x - xs[i]) / (xs[i+1] - xs[i]), out: x < xs[0] ? 'below' : x > xs[xs.length-1] ? 'above' : null };
+}
+function lerp(a:number, b:number, f:number){ return a + (b - a)*f; }
+// Warnings are worded in the preferred units; weights stay in lb, which has no unit preference.
+export function pohLookup(t: PohTable, paFt:number, oatC:number, weightLb:number | null, f: UnitFormat = DEFAULT_UNIT_FORMAT): PohLookup {
+  const warnings: string[] = []; const w = t.hasWeights ? (weightLb ?? t.weightsLb[t.weightsLb.length-1]) : 0;
+  const p = pohAxis(t.paFt, paFt), o = pohAxis(t.oatC, oatC), wa = pohAxis(t.weightsLb, w);
+  const rng = (xs:number[], u:(v:number) => string) => `${u(xs[0])}–${u(xs[xs.length-1])}`; const lb = (v:number) => `${round(v)} lb`;
+  if (p.out) warnings.push(`Pressure altitude ${f.alt(paFt)} is outside the table (${rng(t.paFt, f.alt)}); value extrapolated.`);
+  if (o.out) warnings.push(`OAT ${f.temp(oatC)} is outside the table (${rng(t.oatC, f.temp)}); value extrapolated.`);
+  if (t.hasWeights && wa.out) warnings.push(`Weight ${lb(w)} is outside the table (${rng(t.weightsLb, lb)}); value extrapolated.`);
+  if (t.hasWeights && weightLb==null) warnings.push(`No takeoff weight entered; using the heaviest table weight (${w} lb).`);
+  if (!t.hasWeights && weightLb!=null) warnings.push('Table has no weight column; entered weight not applied.');
+  const at = (g:number[][][]) => {
+    const cell = (wi:number, pi:number) => lerp(g[wi][pi][o.i], g[wi][pi][o.j], o.f);
+    const plane = (wi:number) => lerp(cell(wi, p.i), cell(wi, p.j), p.f);
+    return Math.max(0, lerp(plane(wa.i), plane(wa.j), wa.f));
+  };
+  return { groundRollFt: at(t.groundRollFt), over50Ft: t.over50Ft ? at(t.over50Ft) : null, warnings };
+}
+
+/************ Surface, slope & weight corrections ************/
+// Factors after UK CAA Safety Sense Leaflet 7 (Aeroplane Performance); landing values are kept alongside for the landing calculation.
+export type SurfaceCondition = 'paved-dry'|'paved-wet'|'paved-contaminated'|'grass-dry'|'grass-wet';
+export type CorrectionLine = { key: string; label: string; factor: number; enabled: boolean; note?: string };
+export const SURFACE_FACTORS: Record<SurfaceCondition, { label: string; takeoff: number; landing: number }> = {
+  'paved-dry':          { label: 'Paved, dry',                              takeoff: 1.00, landing: 1.00 },
+  'paved-wet':          { label: 'Paved, wet',                              takeoff: 1.00, landing: 1.15 },
+  'paved-contaminated': { label: 'Paved, contaminated (slush/snow/water)',  takeoff: 1.25, landing: 1.25 },
+  'grass-dry':          { label: 'Grass, dry (up to 20 cm)',                takeoff: 1.20, landing: 1.15 },
+  'grass-wet':          { label: 'Grass, wet',                              takeoff: 1.30, landing: 1.35 },
+};
+export function surfaceKindFromDataset(surface:string): 'paved'|'grass'|null {
+  const s = (surface||'').toUpperCase();
+  if (/^(ASP|CON|PEM|BIT|TAR|ASPH|CONC|PAVED)/.test(s)) return 'paved';
+  if (/^(GRS|GRASS|TURF|GRE|DIRT|GVL|GRAVEL|SOD)/.test(s)) return 'grass';
+  return null;
+}
+// Slope in % along the takeoff direction, positive uphill, from the dataset's threshold elevations.
+export function runwaySlopePct(rw: AirportRunway, end: 'le'|'he'){
+  const from = rw[end].elevationFt, to = rw[end==='le' ? 'he' : 'le'].elevationFt;
+  return (from==null || to==null || !(rw.lengthFt > 0)) ? null : (to - from) / rw.lengthFt * 100;
+}
+// +10% per 2% uphill; no credit is taken for a downhill takeoff.
+export function takeoffSlopeFactor(slopePct:number){ return slopePct > 0 ? 1 + 0.05*slopePct : 1; }
+// Landing: +10% per 2% downhill; no credit is taken for an uphill landing.
+export function landingSlopeFactor(slopePct:number){ return slopePct < 0 ? 1 - 0.05*slopePct : 1; }
+// Landing: +5% per 1000 ft (equivalently ~+5% per 10 °C above ISA), applied to the selected model's density altitude.
+export function landingDaFactor(daFt:number){ return 1 + 0.05*(daFt/1000); }
+export function weightFactor(weightLb:number, refWeightLb:number){ return Math.pow(weightLb / refWeightLb, 2); }
+export function combineCorrections(lines: CorrectionLine[]){ return lines.reduce((f, l) => l.enabled ? f * l.factor : f, 1); }
+
+/************ Climb performance ************/
+// Standard-atmosphere density ratio from density altitude; TAS = IAS / √σ (instrument and position error ignored).
+export function densityRatioFromDa(daFt:number){ return Math.pow(Math.max(1e-6, 1 - 6.8756e-6*daFt), 4.2559); }
+export function tasFromIasKt(iasKt:number, daFt:number){ return iasKt / Math.sqrt(densityRatioFromDa(daFt)); }
+export const FPM_PER_KT = 6076.12 / 60;
+export type ClimbResult = { actualRocFpm: number; tasKt: number; gsKt: number; gradientFtPerNm: number; gradientPct: number };
+// Book ROC reduced by the model's ROC loss; gradient is over the ground, so headwind steepens and tailwind flattens it.
+export function climbGradient(bookRocFpm:number, rocLossPct:number, iasKt:number, daFt:number, headwindKt:number): ClimbResult {
+  const actualRocFpm = Math.max(0, bookRocFpm * (1 - rocLossPct/100));
+  const tasKt = tasFromIasKt(iasKt, daFt); const gsKt = Math.max(1, tasKt - headwindKt);
+  return { actualRocFpm, tasKt, gsKt, gradientFtPerNm: actualRocFpm * 60 / gsKt, gradientPct: actualRocFpm / (gsKt * FPM_PER_KT) * 100 };
+}
+export function ftPerNmToPct(ftPerNm:number){ return ftPerNm / 6076.12 * 100; }
+
+/************ Limiting-condition solver ************/
+export type SolveMax = { value: number; limit: 'none'|'range'|null };
+// Largest x in [lo, hi] with f(x) ≤ target for increasing f. `limit` is 'none' when even lo fails and 'range' when hi still fits.
+export function solveMonotonicMax(f:(x:number)=>number, lo:number, hi:number, target:number, tol = 0.01): SolveMax {
+  if (!(f(lo) <= target)) return { value: NaN, limit: 'none' };
+  if (f(hi) <= target) return { value: hi, limit: 'range' };
+  while (hi - lo > tol){ const mid = (lo + hi) / 2; if (f(mid) <= target) lo = mid; else hi = mid; }
+  return { value: lo, limit: null };
+}
+
+/************ Takeoff calculation ************/
+// The takeoff pipeline shared by the app, CLI and route comparison: DA → model factor (or POH table) → corrections → margin and limiting OAT/PA.
+// The safety margin is part of the verdict: `ok`, `marginFt`, `pctUsed` and the limits all use the required distance plus the margin.
+export type CorrectionKey = 'wind'|'surface'|'slope'|'weight';
+export type TakeoffInput = {
+  paFt: number; tempC: number; dewC?: number | null; fieldElevFt: number; runwayFt: number; model: KochModel;
+  baselineFt?: number | null; poh?: { table: PohTable; basis: 'groundRoll'|'over50' } | null;
+  wind?: WindObs | null; runwayHeadingDeg?: number | null; surface?: SurfaceCondition; slopePct?: number | null;
+  weightLb?: number | null; refWeightLb?: number | null; safetyMarginPct?: number;
+  // Correction lines switched off here stay in the breakdown but are not applied; all default to on.
+  apply?: Partial<Record<CorrectionKey, boolean>>;
+};
+export type TakeoffResult = {
+  densityAltitudeFt: { ruleOfThumb: number; precise: number; model: number }; kochFactor: number; climbLossPct: number;
+  windComponents: WindComponents | null; corrections: CorrectionLine[]; correctionFactor: number; pohWarnings: string[];
+  uncorrectedFt: number; requiredFt: number; requiredWithMarginFt: number; marginFt: number; ok: boolean; pctUsed: number;
+  limits: { maxOatC: SolveMax; maxPaFt: SolveMax };
+};
+function windCorrection(wc: WindComponents | null, enabled: boolean, f: UnitFormat): CorrectionLine {
+  const label = !wc ? 'Wind' : `Wind (${wc.headKt >= 0 ? `${f.wind(wc.headKt)} head` : `${f.wind(Math.max(-wc.headKt, -wc.gustHeadKt))} tail`})`;
+  return { key: 'wind', label, factor: wc ? windDistanceFactor(wc) : 1, enabled: enabled && !!wc, note: wc ? undefined : 'no wind/runway' };
+}
+function slopeCorrection(slopePct: number | null | undefined, enabled: boolean, factor: (s: number) => number, noCredit: (s: number) => string | undefined): CorrectionLine {
+  const has = slopePct!=null && isFinite(slopePct);
+  return { key: 'slope', label: `Slope${has ? ` ${slopePct > 0 ? '+' : ''}${round(slopePct,1)}%` : ''}`, factor: has ? factor(slopePct) : 1, enabled: enabled && has, note: has ? noCredit(slopePct) : 'not entered' };
+}
+export function calculateTakeoff(i: TakeoffInput, f: UnitFormat = DEFAULT_UNIT_FORMAT): TakeoffResult {
+  const on = (k: CorrectionKey) => i.apply?.[k] ?? true;
+  const dew = i.dewC!=null ? Math.min(i.dewC, i.tempC) : null;
+  const daAt = (pa: number, t: number) => densityAltitudeFt(i.model, pa, t, i.fieldElevFt, dew!=null ? Math.min(dew, t) : null);
+  const pohDist = (r: PohLookup) => i.poh!.basis==='over50' && r.over50Ft!=null ? r.over50Ft : r.groundRollFt;
+  const uncorrectedAt = (pa: number, t: number) => i.poh ? pohDist(pohLookup(i.poh.table, pa, t, i.weightLb ?? null)) : (i.baselineFt ?? 0) * kochTakeoffFactor(daAt(pa, t), i.model);
+  const daFt = daAt(i.paFt, i.tempC);
+  const wc = i.wind && i.runwayHeadingDeg!=null ? windComponents(i.wind, i.runwayHeadingDeg) : null;
+  const surface = i.surface ?? 'paved-dry';
+  const hasWeight = i.weightLb!=null && i.weightLb > 0 && i.refWeightLb!=null && i.refWeightLb > 0;
+  const weightInTable = !!i.poh?.table.hasWeights;
+  const corrections: CorrectionLine[] = [
+    windCorrection(wc, on('wind'), f),
+    { key: 'surface', label: `Surface: ${SURFACE_FACTORS[surface].label}`, factor: SURFACE_FACTORS[surface].takeoff, enabled: on('surface') },
+    slopeCorrection(i.slopePct, on('slope'), takeoffSlopeFactor, s => s < 0 ? 'downhill, no credit' : undefined),
+    { key: 'weight', label: `Weight${hasWeight ? ` ${i.weightLb} / ${i.refWeightLb} lb` : ''}`, factor: hasWeight ? weightFactor(i.weightLb!, i.refWeightLb!) : 1,
+      enabled: on('weight') && hasWeight && !weightInTable, note: weightInTable ? 'in POH table' : !hasWeight ? 'weights not entered' : undefined },
+  ];
+  const correctionFactor = combineCorrections(corrections);
+  const marginFactor = 1 + Math.max(0, i.safetyMarginPct ?? 0)/100;
+  const uncorrectedFt = uncorrectedAt(i.paFt, i.tempC); const requiredFt = uncorrectedFt * correctionFactor;
+  const requiredWithMarginFt = requiredFt * marginFactor; const marginFt = i.runwayFt - requiredWithMarginFt;
+  const requiredAt = (pa: number, t: number) => uncorrectedAt(pa, t) * correctionFactor * marginFactor;
+  return {
+    densityAltitudeFt: { ruleOfThumb: densityAltitudeRuleOfThumbFt(i.paFt, i.tempC, i.fieldElevFt), precise: preciseDensityAltitudeFt(i.paFt, i.tempC, dew), model: daFt },
+    kochFactor: kochTakeoffFactor(daFt, i.model), climbLossPct: Math.max(0, kochClimbLossPct(daFt, i.model)),
+    windComponents: wc, corrections, correctionFactor, pohWarnings: i.poh ? pohLookup(i.poh.table, i.paFt, i.tempC, i.weightLb ?? null, f).warnings : [],
+    uncorrectedFt, requiredFt, requiredWithMarginFt, marginFt, ok: marginFt >= 0, pctUsed: i.runwayFt > 0 ? requiredWithMarginFt / i.runwayFt * 100 : NaN,
+    limits: { maxOatC: solveMonotonicMax(t => requiredAt(i.paFt, t), -60, 60, i.runwayFt), maxPaFt: solveMonotonicMax(pa => requiredAt(pa, i.tempC), -2000, 30000, i.runwayFt, 1) },
+  };
+}
+
+/************ Landing calculation ************/
+// Baseline landing distance × the +5%/1000 ft DA factor, then wind, surface and slope; no safety margin or POH table.
+export type LandingInput = Pick<TakeoffInput, 'paFt'|'tempC'|'dewC'|'fieldElevFt'|'runwayFt'|'model'|'wind'|'runwayHeadingDeg'|'surface'|'slopePct'> & {
+  baselineFt: number; apply?: Partial<Record<Exclude<CorrectionKey, 'weight'>, boolean>>;
+};
+export type LandingResult = {
+  densityAltitudeFt: number; daFactor: number; windComponents: WindComponents | null; corrections: CorrectionLine[]; correctionFactor: number;
+  uncorrectedFt: number; requiredFt: number; marginFt: number; ok: boolean; pctUsed: number;
+};
+export function calculateLanding(i: LandingInput, f: UnitFormat = DEFAULT_UNIT_FORMAT): LandingResult {
+  const on = (k: Exclude<CorrectionKey, 'weight'>) => i.apply?.[k] ?? true;
+  const daFt = densityAltitudeFt(i.model, i.paFt, i.tempC, i.fieldElevFt, i.dewC!=null ? Math.min(i.dewC, i.tempC) : null);
+  const wc = i.wind && i.runwayHeadingDeg!=null ? windComponents(i.wind, i.runwayHeadingDeg) : null;
+  const surface = i.surface ?? 'paved-dry';
+  const corrections: CorrectionLine[] = [
+    windCorrection(wc, on('wind'), f),
+    { key: 'surface', label: `Surface: ${SURFACE_FACTORS[surface].label}`, factor: SURFACE_FACTORS[surface].landing, enabled: on('surface') },
+    slopeCorrection(i.slopePct, on('slope'), landingSlopeFactor, s => s > 0 ? 'uphill, no credit' : undefined),
+  ];
+  const daFactor = landingDaFactor(daFt); const correctionFactor = combineCorrections(corrections);
+  const uncorrectedFt = i.baselineFt * daFactor; const requiredFt = uncorrectedFt * correctionFactor; const marginFt = i.runwayFt - requiredFt;
+  return { densityAltitudeFt: daFt, daFactor, windComponents: wc, corrections, correctionFactor, uncorrectedFt, requiredFt, marginFt, ok: marginFt >= 0, pctUsed: i.runwayFt > 0 ? requiredFt / i.runwayFt * 100 : NaN };
+}
+
+/************ Personal minimums ************/
+export type GoStatus = 'GO'|'CAUTION'|'NO-GO';
+export type PersonalMinimums = {
+  minMarginPct: number | null; minMarginFt: number | null; maxDaFt: number | null; maxCrosswindKt: number | null; maxTailwindKt: number | null;
+  minCategory: Exclude<FlightCategory,'UNK'> | null; maxMetarAgeMin: number | null;
+};
+export type MinimumsInput = {
+  runwayFt: number | null; requiredFt: number | null; daFt: number | null; crosswindKt: number | null; tailwindKt: number | null;
+  category: FlightCategory | null; metarAgeMin: number | null;
+};
+export type MinimumsCheck = { key: string; label: string; limit: string; actual: string; status: GoStatus; note?: string };
+export type MinimumsAssessment = { status: GoStatus; checks: MinimumsCheck[]; breached: MinimumsCheck[] };
+export const EMPTY_MINIMUMS: PersonalMinimums = { minMarginPct: null, minMarginFt: null, maxDaFt: null, maxCrosswindKt: null, maxTailwindKt: null, minCategory: null, maxMetarAgeMin: null };
+export const FLIGHT_CATEGORY_RANK: Record<FlightCategory, number> = { VFR: 0, MVFR: 1, IFR: 2, LIFR: 3, UNK: 4 };
+// Within this fraction of a limit (on the safe side) a check is CAUTION rather than GO.
+export const MINIMUMS_CAUTION_BAND = 0.1;
+const STATUS_RANK: Record<GoStatus, number> = { GO: 0, CAUTION: 1, 'NO-GO': 2 };
+
+const finite = (v: number | null): v is number => v!=null && Number.isFinite(v);
+function limitCheck(key: string, label: string, kind: 'min'|'max', limit: number, actual: number | null, fmt: (v: number) => string): MinimumsCheck {
+  const base = { key, label, limit: `${kind==='max' ? '≤' : '≥'} ${fmt(limit)}` };
+  if (!finite(actual)) return { ...base, actual: '–', status: 'CAUTION', note: 'not available' };
+  const band = Math.abs(limit) * MINIMUMS_CAUTION_BAND;
+  const breached = kind==='max' ? actual > limit : actual < limit;
+  const close = kind==='max' ? actual > limit - band : actual < limit + band;
+  return { ...base, actual: fmt(actual), status: breached ? 'NO-GO' : close ? 'CAUTION' : 'GO', note: !breached && close ? `within ${MINIMUMS_CAUTION_BAND*100}% of limit` : undefined };
+}
+
+// Checks the current inputs and results against a pilot's minimums; every unset minimum is skipped, missing data is CAUTION.
+export function assessMinimums(m: PersonalMinimums, i: MinimumsInput, f: UnitFormat = DEFAULT_UNIT_FORMAT): MinimumsAssessment {
+  const plain = (unit: string) => (v: number) => `${Math.round(v)}${unit}`;
+  const checks: MinimumsCheck[] = [];
+  const haveDist = finite(i.runwayFt) && finite(i.requiredFt);
+  const marginFt = haveDist ? i.runwayFt! - i.requiredFt! : null;
+  const marginPct = haveDist && i.requiredFt! > 0 ? marginFt! / i.requiredFt! * 100 : null;
+  if (haveDist) checks.push({ key: 'runway', label: 'Fits runway', limit: f.dist(i.runwayFt!), actual: `${f.dist(i.requiredFt!)} required`, status: marginFt! >= 0 ? 'GO' : 'NO-GO' });
+  if (m.minMarginPct!=null) checks.push(limitCheck('marginPct', 'Runway margin (%)', 'min', m.minMarginPct, marginPct, plain('%')));
+  if (m.minMarginFt!=null) checks.push(limitCheck('marginFt', 'Runway margin (distance)', 'min', m.minMarginFt, marginFt, f.dist));
+  if (m.maxDaFt!=null) checks.push(limitCheck('da', 'Density altitude', 'max', m.maxDaFt, i.daFt, f.alt));
+  if (m.maxCrosswindKt!=null) checks.push(limitCheck('crosswind', 'Crosswind (incl. gust)', 'max', m.maxCrosswindKt, i.crosswindKt, f.wind));
+  if (m.maxTailwindKt!=null) checks.push(limitCheck('tailwind', 'Tailwind', 'max', m.maxTailwindKt, i.tailwindKt, f.wind));
+  if (m.minCategory!=null){
+    const base = { key: 'category', label: 'Flight category', limit: `${m.minCategory} or better` };
+    if (i.category==null || i.category==='UNK') checks.push({ ...base, actual: '–', status: 'CAUTION', note: 'not available' });
+    else checks.push({ ...base, actual: i.category, status: FLIGHT_CATEGORY_RANK[i.category] > FLIGHT_CATEGORY_RANK[m.minCategory] ? 'NO-GO' : 'GO' });
+  }
+  if (m.maxMetarAgeMin!=null) checks.push(limitCheck('metarAge', 'METAR age', 'max', m.maxMetarAgeMin, i.metarAgeMin, plain(' min')));
+  const status = checks.reduce<GoStatus>((s, c) => STATUS_RANK[c.status] > STATUS_RANK[s] ? c.status : s, 'GO');
+  return { status, checks, breached: checks.filter(c => c.status==='NO-GO') };
+}
+
+/************ Multi-airport comparison ************/
+export type RunwayChoice = { index: number; end: 'le'|'he'; runway: AirportRunway; ident: RunwayIdent };
+// `surface` omitted means no surface correction, as when it is switched off in the main view.
+export type ComparisonAircraft = Pick<TakeoffInput, 'model'|'baselineFt'|'poh'|'surface'|'weightLb'|'refWeightLb'|'safetyMarginPct'> & { applyWind: boolean; applySlope: boolean };
+// Elevation and runway typed in for a station, as in the main calculator; they take precedence over the database. A runway without a heading gets no wind correction.
+export type ManualStationData = { elevationFt: number | null; runwayFt: number | null; runway: RunwayIdent | null };
+export type StationComparison = {
+  station: string; airport: Airport | null; metar: MetarReport | null; category: FlightCategory; elevationFt: number | null; paFt: number | null; tempC: number | null;
+  daRotFt: number | null; daPreciseFt: number | null; runway: RunwayChoice | null; manualRunway: { ident: RunwayIdent | null; lengthFt: number } | null;
+  wind: WindComponents | null; result: TakeoffResult | null; error: string | null;
+};
+export function runwayChoices(ap: Airport): RunwayChoice[] {
+  return ap.runways.flatMap((runway, index) => runway.closed ? [] : (['le','he'] as const).flatMap(end => { const ident = runwayEndIdent(runway, end); return ident ? [{ index, end, runway, ident }] : []; }));
+}
+// Longest open runway, from the end with the most headwind (gusts ignored); the first listed end when there is no wind.
+export function preferredRunwayEnd(ap: Airport, wind: WindObs | null): RunwayChoice | null {
+  const ends = runwayChoices(ap); if (!ends.length) return null;
+  const longest = Math.max(...ends.map(e => e.runway.lengthFt));
+  const head = (e: RunwayChoice) => wind && wind.dirDeg!=null ? windComponents(wind, e.ident.headingDeg).headKt : 0;
+  return ends.filter(e => e.runway.lengthFt===longest).reduce((best, e) => head(e) > head(best) ? e : best);
+}
+// Wet/dry follows the main calculator's surface; paved/grass follows the station's runway when the dataset says.
+function surfaceForRunway(rw: AirportRunway, s: SurfaceCondition): SurfaceCondition {
+  const kind = surfaceKindFromDataset(rw.surface); if (!kind || s.startsWith(kind)) return s;
+  const wet = s.endsWith('wet') || s==='paved-contaminated';
+  return kind==='grass' ? (wet ? 'grass-wet' : 'grass-dry') : (wet ? 'paved-wet' : 'paved-dry');
+}
+
+// One station row: PA from the METAR altimeter and the airport elevation, then the same takeoff calculation as the main view.
+// `runwayKey` ("<index>:<le|he>") picks a runway end; otherwise the longest runway is used. `manual` covers stations the database lacks.
+export function compareStation(station: string, raw: string, ap: Airport | null, runwayKey: string | null, a: ComparisonAircraft, manual: ManualStationData | null = null): StationComparison {
+  const metar = raw.trim() ? decodeMetar(raw) : null;
+  const row: StationComparison = { station, airport: ap, metar, category: metar ? flightCategory(metar) : 'UNK', elevationFt: null, paFt: null, tempC: null, daRotFt: null, daPreciseFt: null, runway: null, manualRunway: null, wind: null, result: null, error: null };
+  if (!metar) return { ...row, error: 'No METAR' };
+  const elevationFt = manual?.elevationFt ?? ap?.elevationFt ?? null;
+  if (elevationFt==null) return { ...row, error: 'Airport elevation not in database; enter it' };
+  row.elevationFt = elevationFt;
+  const wind = metar.wind?.value ?? null;
+  if (manual?.runwayFt!=null && manual.runwayFt > 0) row.manualRunway = { ident: manual.runway, lengthFt: manual.runwayFt };
+  else if (ap){ const choices = runwayChoices(ap); row.runway = (runwayKey ? choices.find(c => `${c.index}:${c.end}`===runwayKey) : null) ?? preferredRunwayEnd(ap, wind); }
+  const headingDeg = row.manualRunway ? row.manualRunway.ident?.headingDeg ?? null : row.runway?.ident.headingDeg ?? null;
+  row.wind = wind && headingDeg!=null ? windComponents(wind, headingDeg) : null;
+  const alt = metar.altimeter?.value.inHg, tempC = metar.tempC?.value;
+  if (alt==null || tempC==null) return { ...row, error: alt==null ? 'No altimeter in METAR' : 'No temperature in METAR' };
+  const dewC = metar.dewC?.value ?? null;
+  row.paFt = pressureAltitudeFromAltimeterFt(elevationFt, alt); row.tempC = tempC;
+  row.daRotFt = densityAltitudeRuleOfThumbFt(row.paFt, tempC, elevationFt);
+  row.daPreciseFt = preciseDensityAltitudeFt(row.paFt, tempC, dewC!=null ? Math.min(dewC, tempC) : null);
+  if (!row.runway && !row.manualRunway) return { ...row, error: 'No runway data; enter a runway length' };
+  if (!a.poh && !((a.baselineFt ?? 0) > 0)) return row;
+  const rw = row.runway;
+  row.result = calculateTakeoff({
+    ...a, paFt: row.paFt, tempC, dewC, fieldElevFt: elevationFt, runwayFt: row.manualRunway ? row.manualRunway.lengthFt : rw!.runway.lengthFt,
+    wind: a.applyWind ? wind : null, runwayHeadingDeg: headingDeg, surface: a.surface && rw ? surfaceForRunway(rw.runway, a.surface) : a.surface ?? 'paved-dry',
+    slopePct: a.applySlope && rw ? runwaySlopePct(rw.runway, rw.end) : null,
+  });
+  return row;
+}
+
+/************ Calculation history ************/
+// A logged takeoff check; `marginFt` and `ok` include the safety margin, as `requiredWithMarginFt` does (null in entries logged before it was kept). `query` is the permalink state at the time of the check, which is what reloads it into the calculator.
+export type HistoryEntry = {
+  id: string; atMs: number; station: string; metar: string; model: PerfMode; forecastAtMs: number | null; tempC: number | null; paFt: number | null;
+  daRotFt: number | null; daPreciseFt: number | null; runway: string; runwayFt: number; requiredFt: number; requiredWithMarginFt: number | null; marginFt: number; ok: boolean; query: string;
+};
+// Stored entries may be stale or hand-edited: an entry without its id, time, distances or query is dropped, other fields fall back to empty or null.
+export function normalizeHistoryEntry(x: unknown): HistoryEntry | null {
+  const o = asRecord(x); if (!o) return null;
+  const num = (v: unknown) => typeof v==='number' && Number.isFinite(v) ? v : null;
+  const str = (v: unknown) => typeof v==='string' ? v : '';
+  const atMs = num(o.atMs), runwayFt = num(o.runwayFt), requiredFt = num(o.requiredFt), marginFt = num(o.marginFt);
+  if (typeof o.id!=='string' || !o.id || typeof o.query!=='string' || atMs==null || runwayFt==null || requiredFt==null || marginFt==null) return null;
+  return {
+    id: o.id, atMs, station: str(o.station), metar: str(o.metar), model: PERF_MODES.find(m => m===o.model) ?? 'precise', forecastAtMs: num(o.forecastAtMs),
+    tempC: num(o.tempC), paFt: num(o.paFt), daRotFt: num(o.daRotFt), daPreciseFt: num(o.daPreciseFt), runway: str(o.runway),
+    runwayFt, requiredFt, requiredWithMarginFt: num(o.requiredWithMarginFt), marginFt, ok: typeof o.ok==='boolean' ? o.ok : marginFt >= 0, query: o.query,
+  };
+}
+export function historyToCsv(list: HistoryEntry[]){
+  return toCsv([
+    ['timestamp','station','metar','model','forecast_for','temp_c','pa_ft','da_rule_of_thumb_ft','da_precise_ft','runway','runway_ft','required_ft','required_with_margin_ft','margin_ft','fits','permalink_query'],
+    ...list.map(e => [new Date(e.atMs).toISOString(), e.station, e.metar, e.model, e.forecastAtMs!=null ? new Date(e.forecastAtMs).toISOString() : null, e.tempC, e.paFt,
+      e.daRotFt!=null ? Math.round(e.daRotFt) : null, e.daPreciseFt!=null ? Math.round(e.daPreciseFt) : null, e.runway, Math.round(e.runwayFt), Math.round(e.requiredFt), e.requiredWithMarginFt!=null ? Math.round(e.requiredWithMarginFt) : null, Math.round(e.marginFt), e.ok, e.query]),
+  ]);
+}
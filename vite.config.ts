@@ -1,6 +1,8 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
-export default defineConfig({
+export default defineConfig(({ isSsrBuild }) => ({
   plugins: [react()],
-})
\ No newline at end of file
+  // The SSR build is the Node CLI (npm run build:cli); it doesn't need the web app's public assets.
+  build: { copyPublicDir: !isSsrBuild },
+}))